@@ -0,0 +1,282 @@
+import {
+	type AnySQLiteColumn,
+	index,
+	integer,
+	primaryKey,
+	sqliteTable,
+	text,
+} from "drizzle-orm/sqlite-core";
+import { user } from "../../packages/better-auth/db/auth-schema-admin";
+
+export const auditLog = sqliteTable(
+	"audit_log",
+	{
+		id: text("id").primaryKey(),
+		event: text("event").notNull(),
+		actorId: text("actor_id").references(() => user.id, {
+			onDelete: "set null",
+		}),
+		targetUserId: text("target_user_id").references(() => user.id, {
+			onDelete: "set null",
+		}),
+		metadata: text("metadata", { mode: "json" }).$type<
+			Record<string, unknown>
+		>(),
+		ipAddress: text("ip_address"),
+		userAgent: text("user_agent"),
+		createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+	},
+	(table) => [
+		index("audit_log_created_at_idx").on(table.createdAt),
+		index("audit_log_event_idx").on(table.event),
+	],
+);
+
+/**
+ * Number of reactions of each kind on a post, keyed by reaction name
+ */
+export type ReactionCounts = Partial<Record<string, number>>;
+
+export const posts = sqliteTable(
+	"posts",
+	{
+		id: text("id").primaryKey(),
+		authorId: text("author_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		title: text("title").notNull(),
+		body: text("body").notNull(),
+		// Millisecond precision keeps posts written in the same second in order
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+		updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+		deletedAt: integer("deleted_at", { mode: "timestamp_ms" }),
+		// Denormalized from `comments` and `reactions` by triggers, so the feed
+		// can show counts without aggregating
+		commentCount: integer("comment_count").notNull().default(0),
+		reactionCounts: text("reaction_counts", { mode: "json" })
+			.$type<ReactionCounts>()
+			.notNull()
+			.default({}),
+	},
+	(table) => [
+		index("posts_author_created_at_idx").on(
+			table.authorId,
+			table.createdAt,
+			table.id,
+		),
+		index("posts_created_at_idx").on(table.createdAt, table.id),
+	],
+);
+
+export const comments = sqliteTable(
+	"comments",
+	{
+		id: text("id").primaryKey(),
+		postId: text("post_id")
+			.notNull()
+			.references(() => posts.id, { onDelete: "cascade" }),
+		authorId: text("author_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		// Replies point at a top-level comment; threads are one level deep
+		parentId: text("parent_id").references((): AnySQLiteColumn => comments.id, {
+			onDelete: "cascade",
+		}),
+		body: text("body").notNull(),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+	},
+	(table) => [
+		index("comments_post_created_at_idx").on(
+			table.postId,
+			table.createdAt,
+			table.id,
+		),
+		index("comments_parent_id_idx").on(table.parentId),
+	],
+);
+
+export const reactions = sqliteTable(
+	"reactions",
+	{
+		postId: text("post_id")
+			.notNull()
+			.references(() => posts.id, { onDelete: "cascade" }),
+		userId: text("user_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		reaction: text("reaction").notNull(),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+	},
+	// Each user can add each kind of reaction to a post once
+	(table) => [
+		primaryKey({ columns: [table.postId, table.userId, table.reaction] }),
+		index("reactions_user_id_idx").on(table.userId),
+	],
+);
+
+export const notifications = sqliteTable(
+	"notifications",
+	{
+		id: text("id").primaryKey(),
+		// The user being notified
+		userId: text("user_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		// The user whose action caused the notification
+		actorId: text("actor_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		type: text("type").notNull(),
+		postId: text("post_id")
+			.notNull()
+			.references(() => posts.id, { onDelete: "cascade" }),
+		commentId: text("comment_id").references(() => comments.id, {
+			onDelete: "cascade",
+		}),
+		reaction: text("reaction"),
+		readAt: integer("read_at", { mode: "timestamp_ms" }),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+	},
+	(table) => [
+		index("notifications_user_created_at_idx").on(
+			table.userId,
+			table.createdAt,
+		),
+		index("notifications_user_read_at_idx").on(table.userId, table.readAt),
+	],
+);
+
+export const attachments = sqliteTable(
+	"attachments",
+	{
+		id: text("id").primaryKey(),
+		ownerId: text("owner_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		// Set once the upload is attached to a post
+		postId: text("post_id").references(() => posts.id, {
+			onDelete: "cascade",
+		}),
+		kind: text("kind").notNull(),
+		// Public files are served to anyone; private ones need a signed URL
+		visibility: text("visibility").notNull(),
+		objectKey: text("object_key").notNull().unique(),
+		fileName: text("file_name").notNull(),
+		contentType: text("content_type").notNull(),
+		size: integer("size").notNull(),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+	},
+	(table) => [
+		index("attachments_owner_id_idx").on(table.ownerId),
+		index("attachments_post_id_idx").on(table.postId),
+	],
+);
+
+export const dataExports = sqliteTable(
+	"data_exports",
+	{
+		id: text("id").primaryKey(),
+		userId: text("user_id")
+			.notNull()
+			.references(() => user.id, { onDelete: "cascade" }),
+		format: text("format").notNull(),
+		// pending until the archive is written to R2, then ready or failed
+		status: text("status").notNull(),
+		objectKey: text("object_key"),
+		size: integer("size"),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+		completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+		// The download link stops working, and the archive is removed, after this
+		expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+	},
+	(table) => [
+		index("data_exports_user_created_at_idx").on(table.userId, table.createdAt),
+		index("data_exports_expires_at_idx").on(table.expiresAt),
+	],
+);
+
+export const accountDeletions = sqliteTable(
+	"account_deletions",
+	{
+		userId: text("user_id")
+			.primaryKey()
+			.references(() => user.id, { onDelete: "cascade" }),
+		requestedAt: integer("requested_at", { mode: "timestamp_ms" }).notNull(),
+		// The account is purged by the scheduled job once this has passed
+		scheduledFor: integer("scheduled_for", { mode: "timestamp_ms" }).notNull(),
+	},
+	(table) => [
+		index("account_deletions_scheduled_for_idx").on(table.scheduledFor),
+	],
+);
+
+export const emailOutbox = sqliteTable(
+	"email_outbox",
+	{
+		id: text("id").primaryKey(),
+		to: text("to").notNull(),
+		template: text("template").notNull(),
+		category: text("category").notNull(),
+		subject: text("subject").notNull(),
+		html: text("html").notNull(),
+		text: text("text").notNull(),
+		headers: text("headers", { mode: "json" }).$type<Record<string, string>>(),
+		// pending while a synchronous attempt runs, queued until the consumer
+		// delivers it, then sent or failed once it reaches the dead-letter queue
+		status: text("status").notNull(),
+		attempts: integer("attempts").notNull().default(0),
+		lastError: text("last_error"),
+		providerMessageId: text("provider_message_id"),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+		updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+		sentAt: integer("sent_at", { mode: "timestamp_ms" }),
+		// Set for mail carrying a sign-in link or code, which is useless after
+		// this: it is not retried past it and its body is cleared once settled
+		expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+	},
+	(table) => [
+		index("email_outbox_status_idx").on(table.status, table.createdAt),
+		index("email_outbox_to_idx").on(table.to, table.createdAt),
+	],
+);
+
+/**
+ * Delivery events reported by the email provider's webhook, one row per
+ * webhook message
+ */
+export const emailEvents = sqliteTable(
+	"email_events",
+	{
+		// The webhook message id, so redelivered webhooks are stored once
+		id: text("id").primaryKey(),
+		type: text("type").notNull(),
+		email: text("email").notNull(),
+		providerMessageId: text("provider_message_id"),
+		outboxId: text("outbox_id").references(() => emailOutbox.id, {
+			onDelete: "set null",
+		}),
+		userId: text("user_id").references(() => user.id, {
+			onDelete: "set null",
+		}),
+		// Bounce classification and message, when the provider sends one
+		detail: text("detail"),
+		occurredAt: integer("occurred_at", { mode: "timestamp_ms" }).notNull(),
+		createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+	},
+	(table) => [
+		index("email_events_email_idx").on(table.email, table.occurredAt),
+		index("email_events_outbox_id_idx").on(table.outboxId),
+	],
+);
+
+/**
+ * Addresses that hard-bounced or marked our email as spam; nothing more is
+ * sent to them
+ */
+export const emailSuppressions = sqliteTable("email_suppressions", {
+	// Stored lowercase
+	email: text("email").primaryKey(),
+	reason: text("reason").notNull(),
+	eventId: text("event_id"),
+	createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+});
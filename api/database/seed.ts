@@ -0,0 +1,216 @@
+import { and, eq, isNull, ne, or } from "drizzle-orm";
+import { user } from "../../packages/better-auth/db/auth-schema-admin";
+import type { DatabaseClient } from "../../workers/types";
+import { posts } from "./schema";
+
+export type SeedConfig = {
+	adminEmail: string;
+	adminName: string;
+	loadTestUsers: number;
+};
+
+/**
+ * Per-table counts of what a seed set wrote. Tables whose rows already
+ * existed are reported as `skipped`.
+ */
+export type SeedReport = {
+	set: SeedSetName;
+	inserted: Record<string, number>;
+	updated: Record<string, number>;
+	skipped: Record<string, number>;
+};
+
+type SeedSet = {
+	description: string;
+	run: (
+		db: DatabaseClient,
+		config: SeedConfig,
+	) => Promise<Omit<SeedReport, "set">>;
+};
+
+// D1 binds at most 100 parameters per statement
+const INSERT_BATCH_SIZE = 10;
+
+export const DEMO_USERS = [
+	{ id: "demo-alice", name: "Alice Demo", email: "alice@demo.example.com" },
+	{ id: "demo-bob", name: "Bob Demo", email: "bob@demo.example.com" },
+	{ id: "demo-carol", name: "Carol Demo", email: "carol@demo.example.com" },
+];
+
+export function seedConfigFromEnv(env: {
+	SEED_ADMIN_EMAIL?: string;
+	SEED_ADMIN_NAME?: string;
+	SEED_LOAD_TEST_USERS?: string;
+}): SeedConfig {
+	const loadTestUsers = Number(env.SEED_LOAD_TEST_USERS);
+	return {
+		adminEmail: env.SEED_ADMIN_EMAIL || "admin@example.com",
+		adminName: env.SEED_ADMIN_NAME || "Admin",
+		loadTestUsers:
+			Number.isInteger(loadTestUsers) && loadTestUsers > 0
+				? loadTestUsers
+				: 100,
+	};
+}
+
+const DEMO_POSTS = [
+	{
+		title: "Hello, feed",
+		body: "This is the first post on the demo feed.",
+	},
+	{
+		title: "Weekly update",
+		body: "Shipped the new sign-up flow and cleaned up the admin area.",
+	},
+	{
+		title: "Reading list",
+		body: "A few articles on Cloudflare D1 and Durable Objects worth a look.",
+	},
+];
+
+async function insertUsers(
+	db: DatabaseClient,
+	rows: { id: string; name: string; email: string; role?: string }[],
+) {
+	let inserted = 0;
+	for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+		const now = new Date();
+		const result = await db
+			.insert(user)
+			.values(
+				rows.slice(i, i + INSERT_BATCH_SIZE).map((row) => ({
+					...row,
+					emailVerified: true,
+					createdAt: now,
+					updatedAt: now,
+				})),
+			)
+			.onConflictDoNothing()
+			.returning({ id: user.id });
+		inserted += result.length;
+	}
+	return { inserted, skipped: rows.length - inserted };
+}
+
+export const seedSets = {
+	admin: {
+		description: "Creates the admin user from SEED_ADMIN_EMAIL/SEED_ADMIN_NAME",
+		run: async (db, config) => {
+			const { inserted, skipped } = await insertUsers(db, [
+				{
+					id: crypto.randomUUID(),
+					name: config.adminName,
+					email: config.adminEmail,
+					role: "admin",
+				},
+			]);
+			// Promote an existing account with that email instead of duplicating it
+			const promoted = await db
+				.update(user)
+				.set({ role: "admin", updatedAt: new Date() })
+				.where(
+					and(
+						eq(user.email, config.adminEmail),
+						or(isNull(user.role), ne(user.role, "admin")),
+					),
+				)
+				.returning({ id: user.id });
+			return {
+				inserted: { user: inserted },
+				updated: { user: promoted.length },
+				skipped: { user: skipped - promoted.length },
+			};
+		},
+	},
+	"demo-feed": {
+		description:
+			"Creates demo users and gives them, and the admin if seeded, demo posts",
+		run: async (db, config) => {
+			const users = await insertUsers(db, DEMO_USERS);
+			const [admin] = await db
+				.select({ id: user.id })
+				.from(user)
+				.where(eq(user.email, config.adminEmail));
+			const authorIds = [
+				...DEMO_USERS.map((demoUser) => demoUser.id),
+				...(admin ? [admin.id] : []),
+			];
+
+			// Spread timestamps out so the feed has a stable, readable order
+			const start = Date.now() - authorIds.length * DEMO_POSTS.length * 60_000;
+			const postRows = authorIds.flatMap((authorId, authorIndex) =>
+				DEMO_POSTS.map((post, postIndex) => {
+					const createdAt = new Date(
+						start + (authorIndex * DEMO_POSTS.length + postIndex) * 60_000,
+					);
+					return {
+						id: `demo-post-${authorId}-${postIndex}`,
+						authorId,
+						...post,
+						createdAt,
+						updatedAt: createdAt,
+					};
+				}),
+			);
+			let insertedPosts = 0;
+			for (let i = 0; i < postRows.length; i += INSERT_BATCH_SIZE) {
+				const result = await db
+					.insert(posts)
+					.values(postRows.slice(i, i + INSERT_BATCH_SIZE))
+					.onConflictDoNothing()
+					.returning({ id: posts.id });
+				insertedPosts += result.length;
+			}
+
+			return {
+				inserted: { user: users.inserted, posts: insertedPosts },
+				updated: {},
+				skipped: {
+					user: users.skipped,
+					posts: postRows.length - insertedPosts,
+				},
+			};
+		},
+	},
+	"load-test": {
+		description: "Creates SEED_LOAD_TEST_USERS users for load testing",
+		run: async (db, config) => {
+			const rows = Array.from({ length: config.loadTestUsers }, (_, i) => ({
+				id: `load-test-user-${i}`,
+				name: `Load Test User ${i}`,
+				email: `load-test-${i}@load.example.com`,
+			}));
+			const { inserted, skipped } = await insertUsers(db, rows);
+			return {
+				inserted: { user: inserted },
+				updated: {},
+				skipped: { user: skipped },
+			};
+		},
+	},
+} satisfies Record<string, SeedSet>;
+
+export type SeedSetName = keyof typeof seedSets;
+
+export const SEED_SET_NAMES = Object.keys(seedSets) as SeedSetName[];
+
+export function isSeedSetName(value: unknown): value is SeedSetName {
+	return typeof value === "string" && Object.hasOwn(seedSets, value);
+}
+
+/**
+ * Runs the given seed sets in order. Every set is idempotent, so running one
+ * twice only reports the second run's rows as skipped.
+ */
+export async function runSeeds(
+	db: DatabaseClient,
+	config: SeedConfig,
+	sets: SeedSetName[],
+): Promise<SeedReport[]> {
+	const reports: SeedReport[] = [];
+	for (const set of sets) {
+		console.log(`Seeding "${set}": ${seedSets[set].description}`);
+		reports.push({ set, ...(await seedSets[set].run(db, config)) });
+	}
+	return reports;
+}
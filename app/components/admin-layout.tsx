@@ -2,9 +2,12 @@ import {
 	LucideHome,
 	LucideLayoutDashboard,
 	LucideMenu,
+	LucideScrollText,
 	LucideSettings,
+	LucideUsers,
 } from "lucide-react";
 import type { ReactNode } from "react";
+import { Link } from "react-router";
 import {
 	Sidebar,
 	SidebarContent,
@@ -16,12 +19,24 @@ import {
 	SidebarProvider,
 	SidebarTrigger,
 } from "~/components/ui/sidebar";
+import { ImpersonationBanner } from "./impersonation-banner";
 
 interface LayoutProps {
 	children: ReactNode;
+	user?: { name: string; email: string };
 }
 
-export function AdminSiteLayout({ children }: LayoutProps) {
+function NavItem({ to, children }: { to: string; children: ReactNode }) {
+	return (
+		<SidebarMenuItem className="mb-1.5 font-medium text-gray-700 dark:text-gray-300 px-3 py-2.5 rounded-md hover:bg-gray-200/70 dark:hover:bg-gray-800/70 transition-colors">
+			<Link to={to} className="flex items-center">
+				{children}
+			</Link>
+		</SidebarMenuItem>
+	);
+}
+
+export function AdminSiteLayout({ children, user }: LayoutProps) {
 	return (
 		<SidebarProvider defaultOpen>
 			<div className="flex min-h-screen">
@@ -42,37 +57,39 @@ export function AdminSiteLayout({ children }: LayoutProps) {
 							Main Navigation
 						</div>
 						<SidebarMenu>
-							<SidebarMenuItem
-								href="/"
-								className="mb-1.5 font-medium text-gray-700 dark:text-gray-300 px-3 py-2.5 rounded-md hover:bg-gray-200/70 dark:hover:bg-gray-800/70 transition-colors"
-							>
+							<NavItem to="/">
 								<LucideHome className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400" />
 								Home
-							</SidebarMenuItem>
-							<SidebarMenuItem
-								href="/dashboard"
-								className="mb-1.5 font-medium text-gray-700 dark:text-gray-300 px-3 py-2.5 rounded-md hover:bg-gray-200/70 dark:hover:bg-gray-800/70 transition-colors"
-							>
+							</NavItem>
+							<NavItem to="/admin">
 								<LucideLayoutDashboard className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400" />
 								Dashboard
-							</SidebarMenuItem>
-							<SidebarMenuItem
-								href="/settings"
-								className="mb-1.5 font-medium text-gray-700 dark:text-gray-300 px-3 py-2.5 rounded-md hover:bg-gray-200/70 dark:hover:bg-gray-800/70 transition-colors"
-							>
+							</NavItem>
+							<NavItem to="/settings">
 								<LucideSettings className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400" />
 								Settings
-							</SidebarMenuItem>
+							</NavItem>
+						</SidebarMenu>
+
+						<div className="mt-8 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 tracking-wider mb-3 px-3">
+							Administration
+						</div>
+						<SidebarMenu>
+							<NavItem to="/admin/users">
+								<LucideUsers className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400" />
+								Users
+							</NavItem>
+							<NavItem to="/admin/audit">
+								<LucideScrollText className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400" />
+								Audit log
+							</NavItem>
 						</SidebarMenu>
 
 						<div className="mt-8 text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 tracking-wider mb-3 px-3">
 							Resources
 						</div>
 						<SidebarMenu>
-							<SidebarMenuItem
-								href="/docs"
-								className="mb-1.5 font-medium text-gray-700 dark:text-gray-300 px-3 py-2.5 rounded-md hover:bg-gray-200/70 dark:hover:bg-gray-800/70 transition-colors"
-							>
+							<NavItem to="/docs">
 								<svg
 									xmlns="http://www.w3.org/2000/svg"
 									className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400"
@@ -89,11 +106,8 @@ export function AdminSiteLayout({ children }: LayoutProps) {
 									<path d="M4 19.5v-15A2.5 2.5 0 0 1 6.5 2H20v20H6.5a2.5 2.5 0 0 1 0-5H20" />
 								</svg>
 								Documentation
-							</SidebarMenuItem>
-							<SidebarMenuItem
-								href="/help"
-								className="mb-1.5 font-medium text-gray-700 dark:text-gray-300 px-3 py-2.5 rounded-md hover:bg-gray-200/70 dark:hover:bg-gray-800/70 transition-colors"
-							>
+							</NavItem>
+							<NavItem to="/help">
 								<svg
 									xmlns="http://www.w3.org/2000/svg"
 									className="mr-3 h-5 w-5 text-gray-500 dark:text-gray-400"
@@ -112,29 +126,30 @@ export function AdminSiteLayout({ children }: LayoutProps) {
 									<path d="M12 17h.01" />
 								</svg>
 								Help Center
-							</SidebarMenuItem>
+							</NavItem>
 						</SidebarMenu>
 					</SidebarContent>
 					<SidebarFooter className="mt-auto border-t border-gray-200 dark:border-gray-700 p-4 mx-3">
 						<div className="flex items-center space-x-3">
 							<div className="h-9 w-9 rounded-full bg-blue-100 dark:bg-blue-900 flex items-center justify-center">
 								<span className="text-sm font-medium text-blue-600 dark:text-blue-400">
-									U
+									{user?.name.charAt(0).toUpperCase() || "U"}
 								</span>
 							</div>
 							<div>
 								<p className="text-sm font-medium text-gray-700 dark:text-gray-300">
-									User Name
+									{user?.name || "User Name"}
 								</p>
 								<p className="text-xs text-gray-500 dark:text-gray-400">
-									user@example.com
+									{user?.email || "user@example.com"}
 								</p>
 							</div>
 						</div>
 					</SidebarFooter>
 				</Sidebar>
-				<SidebarInset className="p-6 bg-white dark:bg-gray-950">
-					<div className="max-w-7xl mx-auto">{children}</div>
+				<SidebarInset className="bg-white dark:bg-gray-950">
+					<ImpersonationBanner />
+					<div className="max-w-7xl mx-auto p-6 w-full">{children}</div>
 				</SidebarInset>
 			</div>
 		</SidebarProvider>
@@ -1,5 +1,7 @@
 import type { ReactNode } from "react";
 import { Link } from "react-router";
+import { ImpersonationBanner } from "./impersonation-banner";
+import { NotificationBell } from "./notification-bell";
 import { Image } from "./ui/image";
 
 interface LayoutProps {
@@ -10,28 +12,36 @@ interface LayoutProps {
 
 export function AppLayout({ children, heading, subHeading }: LayoutProps) {
 	return (
-		<div className="flex h-screen w-full bg-white p-8 flex-col">
-			<div className="mb-6 md:mb-12 text-center relative">
-				<div className="z-10 relative">
-					<div className={"justify-center mb-6 flex"}>
-						<div className="w-16 h-16 flex items-center justify-center">
-							<Link to="/feed">
-								<Image alt="Feed" src="https://placehold.co/64" />
-							</Link>
+		<>
+			<ImpersonationBanner />
+			<div className="flex h-screen w-full bg-white p-8 flex-col">
+				<div className="mb-6 md:mb-12 text-center relative">
+					<div className="absolute top-0 right-0 z-20">
+						<NotificationBell />
+					</div>
+					<div className="z-10 relative">
+						<div className={"justify-center mb-6 flex"}>
+							<div className="w-16 h-16 flex items-center justify-center">
+								<Link to="/feed">
+									<Image alt="Feed" src="https://placehold.co/64" />
+								</Link>
+							</div>
 						</div>
+						<h1 className="main-heading">{heading}</h1>
+						{subHeading && (
+							<p className="text-xl font-semibold">{subHeading}</p>
+						)}
 					</div>
-					<h1 className="main-heading">{heading}</h1>
-					{subHeading && <p className="text-xl font-semibold">{subHeading}</p>}
-				</div>
-				<div className="absolute -top-8  left-1/2 -ml-2.5 transform -translate-x-1/2 w-full h-screen py-12 z-0">
-					{/* <Image
+					<div className="absolute -top-8  left-1/2 -ml-2.5 transform -translate-x-1/2 w-full h-screen py-12 z-0">
+						{/* <Image
 						alt="Background"
 						src="https://placehold.co/64"
 						className="h-full w-full"
 					/> */}
+					</div>
 				</div>
+				<div className="z-10 w-full text-text">{children}</div>
 			</div>
-			<div className="z-10 w-full text-text">{children}</div>
-		</div>
+		</>
 	);
 }
@@ -0,0 +1,29 @@
+import { Form, useRouteLoaderData } from "react-router";
+import type { loader as rootLoader } from "~/root";
+import { Button } from "./ui/button";
+
+/**
+ * Shown across the app while an admin is signed in as another user, with a
+ * way back to the admin's own session.
+ */
+export function ImpersonationBanner() {
+	const rootData = useRouteLoaderData<typeof rootLoader>("root");
+	const session = rootData?.session;
+
+	if (!session?.session.impersonatedBy) {
+		return null;
+	}
+
+	return (
+		<div className="w-full bg-amber-100 text-amber-900 border-b border-amber-300 px-4 py-2 flex items-center justify-between gap-4 text-sm">
+			<span>
+				Acting as <strong>{session.user.name}</strong> ({session.user.email})
+			</span>
+			<Form method="post" action="/stop-impersonating">
+				<Button type="submit" size="sm" variant="outline">
+					Stop impersonating
+				</Button>
+			</Form>
+		</div>
+	);
+}
@@ -0,0 +1,32 @@
+import { Bell } from "lucide-react";
+import { Link, useRouteLoaderData } from "react-router";
+import type { loader as authLoader } from "~/routes/_auth";
+
+/**
+ * Links to the notification center, with a badge counting unread
+ * notifications. Renders nothing outside the signed-in area.
+ */
+export function NotificationBell() {
+	const authData = useRouteLoaderData<typeof authLoader>("routes/_auth");
+	if (!authData) {
+		return null;
+	}
+
+	const unread = authData.unreadNotifications;
+	return (
+		<Link
+			to="/notifications"
+			className="relative inline-flex size-9 items-center justify-center rounded-full hover:bg-gray-100"
+			aria-label={
+				unread > 0 ? `Notifications (${unread} unread)` : "Notifications"
+			}
+		>
+			<Bell className="size-5" />
+			{unread > 0 && (
+				<span className="absolute -top-0.5 -right-0.5 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs font-medium flex items-center justify-center">
+					{unread > 99 ? "99+" : unread}
+				</span>
+			)}
+		</Link>
+	);
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { useFetcherSubmitPost } from "~/hooks/use-submit-post";
+import { cn } from "~/lib/utils";
+import type {
+	PostActionResult,
+	PostMutation,
+	SerializedPost,
+} from "~~/services/posts";
+import { isImageType } from "~~/uploads";
+import { PostComments } from "./post-comments";
+import { PostReactions } from "./post-reactions";
+import { Button } from "./ui/button";
+import {
+	Dialog,
+	DialogClose,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "./ui/dialog";
+import { Image } from "./ui/image";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+
+/**
+ * A post in the feed with reactions, comments and, where the viewer may use
+ * them, edit and delete dialogs. Edits show immediately and deleted posts
+ * disappear while the request is in flight.
+ */
+export function PostCard({
+	post,
+	pending = false,
+}: {
+	post: SerializedPost;
+	/** The post has not been saved yet, so it cannot be edited or deleted */
+	pending?: boolean;
+}) {
+	const { fetcher, submitPost } = useFetcherSubmitPost<PostActionResult>({
+		key: `post-${post.id}`,
+	});
+	const [editing, setEditing] = useState(false);
+	const [deleting, setDeleting] = useState(false);
+	const [showComments, setShowComments] = useState(false);
+
+	const mutation = fetcher.json as PostMutation | undefined;
+	const result = fetcher.state === "idle" ? fetcher.data : undefined;
+	const errors = result && !result.ok ? result.errors : undefined;
+
+	useEffect(() => {
+		if (result && !result.ok && result.intent === "update") {
+			setEditing(true);
+		}
+	}, [result]);
+
+	if (
+		mutation?.intent === "delete" ||
+		(result?.ok && result.intent === "delete")
+	) {
+		return null;
+	}
+
+	const { title, body } = mutation?.intent === "update" ? mutation : post;
+
+	const onEdit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		const formData = new FormData(event.currentTarget);
+		submitPost({
+			intent: "update",
+			id: post.id,
+			title: String(formData.get("title") ?? ""),
+			body: String(formData.get("body") ?? ""),
+		});
+		setEditing(false);
+	};
+
+	const onDelete = () => {
+		submitPost({ intent: "delete", id: post.id });
+		setDeleting(false);
+	};
+
+	return (
+		<li className={cn("rounded-xl border p-4", pending && "opacity-60")}>
+			<div className="flex justify-between items-baseline mb-2">
+				<h2 className="font-semibold text-black">{title}</h2>
+				<span className="text-xs text-gray-500">
+					{post.authorName} ·{" "}
+					<time dateTime={post.createdAt}>
+						{new Date(post.createdAt).toLocaleDateString()}
+					</time>
+				</span>
+			</div>
+			<p className="text-sm whitespace-pre-wrap">{body}</p>
+			{post.attachments.length > 0 && (
+				<ul className="flex flex-wrap gap-2 mt-2">
+					{post.attachments.map((attachment) => (
+						<li key={attachment.id}>
+							{isImageType(attachment.contentType) ? (
+								<a href={attachment.url} target="_blank" rel="noreferrer">
+									<Image
+										src={attachment}
+										alt={attachment.fileName}
+										height={160}
+										className="rounded-md border"
+									/>
+								</a>
+							) : (
+								<a
+									href={attachment.url}
+									className="text-sm text-blue-600 underline"
+								>
+									{attachment.fileName}
+								</a>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+			{errors?.form && (
+				<p className="text-red-500 text-sm mt-2">{errors.form}</p>
+			)}
+
+			{!pending && (
+				<div className="flex flex-wrap items-center gap-2 mt-2">
+					<PostReactions post={post} />
+					<Button
+						variant="ghost"
+						size="sm"
+						className="ml-auto"
+						onClick={() => setShowComments(!showComments)}
+						aria-expanded={showComments}
+					>
+						{post.commentCount === 1
+							? "1 comment"
+							: `${post.commentCount} comments`}
+					</Button>
+					{post.canEdit && (
+						<Dialog open={editing} onOpenChange={setEditing}>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => setEditing(true)}
+							>
+								Edit
+							</Button>
+							<DialogContent>
+								<form onSubmit={onEdit} className="space-y-4" noValidate>
+									<DialogHeader>
+										<DialogTitle>Edit post</DialogTitle>
+									</DialogHeader>
+									<div>
+										<Input
+											name="title"
+											defaultValue={title}
+											aria-invalid={errors?.title ? true : undefined}
+										/>
+										{errors?.title && (
+											<p className="text-red-500 text-sm mt-1">
+												{errors.title}
+											</p>
+										)}
+									</div>
+									<div>
+										<Textarea
+											name="body"
+											defaultValue={body}
+											aria-invalid={errors?.body ? true : undefined}
+										/>
+										{errors?.body && (
+											<p className="text-red-500 text-sm mt-1">{errors.body}</p>
+										)}
+									</div>
+									<DialogFooter>
+										<DialogClose asChild>
+											<Button type="button" variant="outline">
+												Cancel
+											</Button>
+										</DialogClose>
+										<Button type="submit" variant="primary">
+											Save
+										</Button>
+									</DialogFooter>
+								</form>
+							</DialogContent>
+						</Dialog>
+					)}
+
+					{post.canDelete && (
+						<Dialog open={deleting} onOpenChange={setDeleting}>
+							<Button
+								variant="ghost"
+								size="sm"
+								onClick={() => setDeleting(true)}
+							>
+								Delete
+							</Button>
+							<DialogContent>
+								<DialogHeader>
+									<DialogTitle>Delete post?</DialogTitle>
+									<DialogDescription>
+										"{title}" will be removed from the feed.
+									</DialogDescription>
+								</DialogHeader>
+								<DialogFooter>
+									<DialogClose asChild>
+										<Button type="button" variant="outline">
+											Cancel
+										</Button>
+									</DialogClose>
+									<Button
+										type="button"
+										variant="destructive"
+										onClick={onDelete}
+									>
+										Delete
+									</Button>
+								</DialogFooter>
+							</DialogContent>
+						</Dialog>
+					)}
+				</div>
+			)}
+			{showComments && (
+				<PostComments postId={post.id} commentCount={post.commentCount} />
+			)}
+		</li>
+	);
+}
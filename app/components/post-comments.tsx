@@ -0,0 +1,209 @@
+import { useEffect, useRef, useState } from "react";
+import { useFetcher } from "react-router";
+import { useFetcherSubmitPost } from "~/hooks/use-submit-post";
+import type {
+	CommentActionResult,
+	CommentThread,
+	SerializedComment,
+} from "~~/services/comments";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+
+function commentsAction(postId: string) {
+	return `/posts/${postId}/comments`;
+}
+
+function CommentForm({
+	postId,
+	parentId,
+	placeholder,
+	onDone,
+}: {
+	postId: string;
+	parentId?: string;
+	placeholder: string;
+	onDone?: () => void;
+}) {
+	const { fetcher, submitPost } = useFetcherSubmitPost<CommentActionResult>({
+		action: commentsAction(postId),
+	});
+	const [body, setBody] = useState("");
+	const submitted = useRef("");
+	const done = useRef(onDone);
+	done.current = onDone;
+	const pending = fetcher.state !== "idle";
+	const result = pending ? undefined : fetcher.data;
+	const errors = result && !result.ok ? result.errors : undefined;
+
+	useEffect(() => {
+		if (result && !result.ok) {
+			setBody(submitted.current);
+		} else if (result?.ok) {
+			done.current?.();
+		}
+	}, [result]);
+
+	const onSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		submitted.current = body;
+		submitPost({ intent: "create", body, parentId: parentId ?? null });
+		setBody("");
+	};
+
+	return (
+		<form onSubmit={onSubmit} className="space-y-1" noValidate>
+			{pending && (
+				<p className="text-sm whitespace-pre-wrap opacity-60">
+					{submitted.current}
+				</p>
+			)}
+			<Textarea
+				value={body}
+				onChange={(event) => setBody(event.target.value)}
+				placeholder={placeholder}
+				aria-invalid={errors?.body ? true : undefined}
+				className="min-h-10"
+			/>
+			{(errors?.body || errors?.form) && (
+				<p className="text-red-500 text-sm">{errors.body ?? errors.form}</p>
+			)}
+			<div className="flex justify-end">
+				<Button type="submit" variant="outline" size="sm">
+					{parentId ? "Reply" : "Comment"}
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+function Comment({
+	postId,
+	comment,
+	onReply,
+}: {
+	postId: string;
+	comment: SerializedComment;
+	onReply?: () => void;
+}) {
+	const { fetcher, submitPost } = useFetcherSubmitPost<CommentActionResult>({
+		action: commentsAction(postId),
+	});
+	const result = fetcher.state === "idle" ? fetcher.data : undefined;
+	// Hide the comment as soon as it is being deleted
+	if (fetcher.state !== "idle" || (result?.ok && result.intent === "delete")) {
+		return null;
+	}
+
+	return (
+		<div className="text-sm">
+			<div className="flex items-baseline gap-2">
+				<span className="font-medium">{comment.author.name}</span>
+				<time dateTime={comment.createdAt} className="text-xs text-gray-500">
+					{new Date(comment.createdAt).toLocaleString()}
+				</time>
+			</div>
+			<p className="whitespace-pre-wrap">{comment.body}</p>
+			<div className="flex gap-2 text-xs text-gray-500">
+				{onReply && (
+					<button type="button" onClick={onReply} className="hover:underline">
+						Reply
+					</button>
+				)}
+				{comment.canDelete && (
+					<button
+						type="button"
+						onClick={() => submitPost({ intent: "delete", id: comment.id })}
+						className="hover:underline"
+					>
+						Delete
+					</button>
+				)}
+			</div>
+			{result && !result.ok && (
+				<p className="text-red-500 text-xs">{result.errors.form}</p>
+			)}
+		</div>
+	);
+}
+
+function Thread({ postId, thread }: { postId: string; thread: CommentThread }) {
+	const [replying, setReplying] = useState(false);
+
+	return (
+		<li className="space-y-2">
+			<Comment
+				postId={postId}
+				comment={thread}
+				onReply={() => setReplying(!replying)}
+			/>
+			{(thread.replies.length > 0 || replying) && (
+				<ul className="ml-4 pl-3 border-l space-y-2">
+					{thread.replies.map((reply) => (
+						<li key={reply.id}>
+							<Comment
+								postId={postId}
+								comment={reply}
+								onReply={() => setReplying(true)}
+							/>
+						</li>
+					))}
+					{replying && (
+						<li>
+							<CommentForm
+								postId={postId}
+								parentId={thread.id}
+								placeholder={`Reply to ${thread.author.name}`}
+								onDone={() => setReplying(false)}
+							/>
+						</li>
+					)}
+				</ul>
+			)}
+		</li>
+	);
+}
+
+/**
+ * A post's comment threads, loaded when first shown and reloaded when the
+ * post's comment count no longer matches, e.g. after a live update
+ */
+export function PostComments({
+	postId,
+	commentCount,
+}: {
+	postId: string;
+	commentCount: number;
+}) {
+	const fetcher = useFetcher<{ threads: CommentThread[] }>({
+		key: `comments-${postId}`,
+	});
+
+	const { load } = fetcher;
+	const loadedCount = fetcher.data?.threads.reduce(
+		(total, thread) => total + 1 + thread.replies.length,
+		0,
+	);
+	const requestedFor = useRef<number | null>(null);
+
+	useEffect(() => {
+		if (loadedCount !== commentCount && requestedFor.current !== commentCount) {
+			requestedFor.current = commentCount;
+			load(commentsAction(postId));
+		}
+	}, [load, postId, commentCount, loadedCount]);
+
+	return (
+		<div className="space-y-3 mt-3 pt-3 border-t">
+			{fetcher.data ? (
+				<ul className="space-y-3">
+					{fetcher.data.threads.map((thread) => (
+						<Thread key={thread.id} postId={postId} thread={thread} />
+					))}
+				</ul>
+			) : (
+				<p className="text-sm text-gray-500">Loading comments…</p>
+			)}
+			<CommentForm postId={postId} placeholder="Write a comment" />
+		</div>
+	);
+}
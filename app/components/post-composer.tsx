@@ -0,0 +1,156 @@
+import { CirclePlus, Paperclip, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useFetcherSubmitPost } from "~/hooks/use-submit-post";
+import { useUpload } from "~/hooks/use-upload";
+import type { SerializedAttachment } from "~~/services/attachments";
+import type { PostActionResult, PostInput } from "~~/services/posts";
+import { MAX_ATTACHMENTS_PER_POST, UPLOAD_RULES } from "~~/uploads";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+
+export const CREATE_POST_FETCHER_KEY = "create-post";
+
+type Draft = PostInput & { attachments: SerializedAttachment[] };
+
+const EMPTY_DRAFT: Draft = { title: "", body: "", attachments: [] };
+
+/**
+ * Form for writing a new post. The draft is cleared as soon as it is submitted
+ * (the feed shows it optimistically) and restored if the server rejects it.
+ */
+export function PostComposer() {
+	const { fetcher, submitPost } = useFetcherSubmitPost<PostActionResult>({
+		key: CREATE_POST_FETCHER_KEY,
+	});
+	const [draft, setDraft] = useState(EMPTY_DRAFT);
+	const submitted = useRef(EMPTY_DRAFT);
+	const fileInput = useRef<HTMLInputElement>(null);
+	const { upload, uploading, error: uploadError } = useUpload("post");
+	const result = fetcher.state === "idle" ? fetcher.data : undefined;
+	const errors = result && !result.ok ? result.errors : undefined;
+
+	useEffect(() => {
+		if (result && !result.ok) {
+			setDraft(submitted.current);
+		}
+	}, [result]);
+
+	const onSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+		event.preventDefault();
+		submitted.current = draft;
+		submitPost({
+			intent: "create",
+			title: draft.title,
+			body: draft.body,
+			attachmentIds: draft.attachments.map((attachment) => attachment.id),
+		});
+		setDraft(EMPTY_DRAFT);
+	};
+
+	const onFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (!file) {
+			return;
+		}
+		const attachment = await upload(file);
+		if (attachment) {
+			setDraft((current) => ({
+				...current,
+				attachments: [...current.attachments, attachment],
+			}));
+		}
+	};
+
+	const removeAttachment = (id: string) =>
+		setDraft((current) => ({
+			...current,
+			attachments: current.attachments.filter(
+				(attachment) => attachment.id !== id,
+			),
+		}));
+
+	return (
+		<form onSubmit={onSubmit} className="space-y-2" noValidate>
+			<div>
+				<Input
+					name="title"
+					placeholder="Title"
+					value={draft.title}
+					onChange={(event) =>
+						setDraft({ ...draft, title: event.target.value })
+					}
+					aria-invalid={errors?.title ? true : undefined}
+					aria-describedby={errors?.title ? "post-title-error" : undefined}
+				/>
+				{errors?.title && (
+					<p id="post-title-error" className="text-red-500 text-sm mt-1">
+						{errors.title}
+					</p>
+				)}
+			</div>
+			<div>
+				<Textarea
+					name="body"
+					placeholder="What's on your mind?"
+					value={draft.body}
+					onChange={(event) => setDraft({ ...draft, body: event.target.value })}
+					aria-invalid={errors?.body ? true : undefined}
+					aria-describedby={errors?.body ? "post-body-error" : undefined}
+				/>
+				{errors?.body && (
+					<p id="post-body-error" className="text-red-500 text-sm mt-1">
+						{errors.body}
+					</p>
+				)}
+			</div>
+			{draft.attachments.length > 0 && (
+				<ul className="flex flex-wrap gap-2">
+					{draft.attachments.map((attachment) => (
+						<li
+							key={attachment.id}
+							className="flex items-center gap-1 rounded-md border px-2 py-1 text-xs"
+						>
+							{attachment.fileName}
+							<button
+								type="button"
+								onClick={() => removeAttachment(attachment.id)}
+								aria-label={`Remove ${attachment.fileName}`}
+							>
+								<X className="size-3" />
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+			{uploadError && <p className="text-red-500 text-sm">{uploadError}</p>}
+			{errors?.form && <p className="text-red-500 text-sm">{errors.form}</p>}
+			<div className="flex justify-between">
+				<input
+					ref={fileInput}
+					type="file"
+					accept={UPLOAD_RULES.post.contentTypes.join(",")}
+					onChange={onFileChange}
+					className="hidden"
+				/>
+				<Button
+					type="button"
+					variant="ghost"
+					size="sm"
+					disabled={
+						uploading || draft.attachments.length >= MAX_ATTACHMENTS_PER_POST
+					}
+					onClick={() => fileInput.current?.click()}
+				>
+					<Paperclip />
+					{uploading ? "Uploading…" : "Attach"}
+				</Button>
+				<Button type="submit" variant="primary" size="sm" disabled={uploading}>
+					<CirclePlus />
+					Post
+				</Button>
+			</div>
+		</form>
+	);
+}
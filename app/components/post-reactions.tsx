@@ -0,0 +1,52 @@
+import { useFetcherSubmitPost } from "~/hooks/use-submit-post";
+import { cn } from "~/lib/utils";
+import { REACTIONS, REACTION_NAMES, type ReactionName } from "~~/reactions";
+import type { SerializedPost } from "~~/services/posts";
+
+function ReactionButton({
+	post,
+	reaction,
+}: {
+	post: SerializedPost;
+	reaction: ReactionName;
+}) {
+	const { fetcher, submitPost } = useFetcherSubmitPost({
+		key: `reaction-${post.id}-${reaction}`,
+		action: `/posts/${post.id}/reactions`,
+	});
+
+	const saved = post.viewerReactions.includes(reaction);
+	// While the toggle is in flight, show the state it will end up in
+	const reacted = fetcher.state === "idle" ? saved : !saved;
+	const count =
+		(post.reactionCounts[reaction] ?? 0) + Number(reacted) - Number(saved);
+
+	return (
+		<button
+			type="button"
+			onClick={() => submitPost({ reaction })}
+			aria-pressed={reacted}
+			aria-label={`React with ${reaction}`}
+			className={cn(
+				"rounded-full border px-2 py-0.5 text-xs transition-colors",
+				reacted
+					? "border-blue-300 bg-blue-50"
+					: "border-transparent hover:bg-gray-100",
+				count === 0 && !reacted && "opacity-60",
+			)}
+		>
+			{REACTIONS[reaction]}
+			{count > 0 && <span className="ml-1">{count}</span>}
+		</button>
+	);
+}
+
+export function PostReactions({ post }: { post: SerializedPost }) {
+	return (
+		<div className="flex flex-wrap gap-1">
+			{REACTION_NAMES.map((reaction) => (
+				<ReactionButton key={reaction} post={post} reaction={reaction} />
+			))}
+		</div>
+	);
+}
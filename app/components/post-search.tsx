@@ -0,0 +1,106 @@
+import { Search } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router";
+import { useDebouncedValue } from "~/hooks/use-debounced-value";
+import type { HighlightSegment, PostSearchResult } from "~~/services/search";
+import { Input } from "./ui/input";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Search input kept in sync with the `?q=` URL parameter. Typing updates the
+ * URL once the user pauses, which reruns the route loader; the history entry
+ * is replaced so every keystroke doesn't add to the back button.
+ */
+export function PostSearchBox() {
+	const [searchParams, setSearchParams] = useSearchParams();
+	const q = searchParams.get("q") ?? "";
+	const [text, setText] = useState(q);
+	const debounced = useDebouncedValue(text.trim(), SEARCH_DEBOUNCE_MS);
+
+	// Follow the URL when it changes from elsewhere, e.g. back/forward
+	useEffect(() => {
+		setText((current) => (current.trim() === q ? current : q));
+	}, [q]);
+
+	useEffect(() => {
+		if (debounced === q) {
+			return;
+		}
+		setSearchParams(
+			(params) => {
+				if (debounced) {
+					params.set("q", debounced);
+				} else {
+					params.delete("q");
+				}
+				return params;
+			},
+			{ replace: true, preventScrollReset: true },
+		);
+	}, [debounced, q, setSearchParams]);
+
+	return (
+		<div className="relative">
+			<Search className="absolute left-3 top-1/2 -translate-y-1/2 size-4 text-gray-400" />
+			<Input
+				type="search"
+				name="q"
+				value={text}
+				onChange={(event) => setText(event.target.value)}
+				placeholder="Search posts"
+				aria-label="Search posts"
+				className="pl-9"
+			/>
+		</div>
+	);
+}
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+	return segments.map((segment, index) =>
+		segment.match ? (
+			// biome-ignore lint/suspicious/noArrayIndexKey: segments never reorder
+			<mark key={index} className="bg-yellow-200 rounded-sm">
+				{segment.text}
+			</mark>
+		) : (
+			// biome-ignore lint/suspicious/noArrayIndexKey: segments never reorder
+			<span key={index}>{segment.text}</span>
+		),
+	);
+}
+
+export function PostSearchResults({
+	q,
+	results,
+}: {
+	q: string;
+	results: PostSearchResult[];
+}) {
+	if (results.length === 0) {
+		return <p className="text-center text-gray-500">No posts match "{q}".</p>;
+	}
+
+	return (
+		<ul className="space-y-4 pr-4">
+			{results.map((result) => (
+				<li key={result.id} className="rounded-xl border p-4">
+					<div className="flex justify-between items-baseline mb-2">
+						<h2 className="font-semibold text-black">
+							<Highlighted segments={result.title} />
+						</h2>
+						<span className="text-xs text-gray-500">
+							{result.authorName} ·{" "}
+							<time dateTime={result.createdAt}>
+								{new Date(result.createdAt).toLocaleDateString()}
+							</time>
+						</span>
+					</div>
+					<p className="text-sm whitespace-pre-wrap">
+						<Highlighted segments={result.snippet} />
+					</p>
+				</li>
+			))}
+		</ul>
+	);
+}
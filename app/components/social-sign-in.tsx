@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Spacer } from "~/components/spacer";
+import { signIn } from "~~/auth-client";
+import type { SocialProviderId } from "~~/social-providers";
+import { Button } from "./ui/button";
+
+const providerLabels: Record<SocialProviderId, string> = {
+	google: "Google",
+	github: "GitHub",
+};
+
+export function SocialProviderIcon({
+	provider,
+}: { provider: SocialProviderId }) {
+	if (provider === "github") {
+		return (
+			<svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
+				<title>GitHub</title>
+				<path
+					d="M12 2C6.477 2 2 6.484 2 12.017c0 4.425 2.865 8.18 6.839 9.504.5.092.682-.217.682-.483 0-.237-.008-.868-.013-1.703-2.782.605-3.369-1.343-3.369-1.343-.454-1.158-1.11-1.466-1.11-1.466-.908-.62.069-.608.069-.608 1.003.07 1.531 1.032 1.531 1.032.892 1.53 2.341 1.088 2.91.832.092-.647.35-1.088.636-1.338-2.22-.253-4.555-1.113-4.555-4.951 0-1.093.39-1.988 1.029-2.688-.103-.253-.446-1.272.098-2.65 0 0 .84-.27 2.75 1.026A9.564 9.564 0 0112 6.844c.85.004 1.705.115 2.504.337 1.909-1.296 2.747-1.027 2.747-1.027.546 1.379.202 2.398.1 2.651.64.7 1.028 1.595 1.028 2.688 0 3.848-2.339 4.695-4.566 4.943.359.309.678.92.678 1.855 0 1.338-.012 2.419-.012 2.747 0 .268.18.58.688.482A10.019 10.019 0 0022 12.017C22 6.484 17.522 2 12 2z"
+					fill="currentColor"
+				/>
+			</svg>
+		);
+	}
+
+	return (
+		<svg className="w-5 h-5 mr-2" viewBox="0 0 24 24">
+			<title>Google</title>
+			<path
+				d="M12.545,10.239v3.821h5.445c-0.712,2.315-2.647,3.972-5.445,3.972c-3.332,0-6.033-2.701-6.033-6.032s2.701-6.032,6.033-6.032c1.498,0,2.866,0.549,3.921,1.453l2.814-2.814C17.503,2.988,15.139,2,12.545,2C7.021,2,2.543,6.477,2.543,12s4.478,10,10.002,10c8.396,0,10.249-7.85,9.426-11.748L12.545,10.239z"
+				fill="currentColor"
+			/>
+		</svg>
+	);
+}
+
+export function socialProviderLabel(provider: SocialProviderId) {
+	return providerLabels[provider];
+}
+
+interface SocialSignInButtonsProps {
+	providers: SocialProviderId[];
+	verb?: string;
+}
+
+/**
+ * Renders one sign-in button per configured OAuth provider, preceded by an
+ * "or" spacer. Renders nothing when no provider is configured.
+ */
+export function SocialSignInButtons({
+	providers,
+	verb = "Sign In",
+}: SocialSignInButtonsProps) {
+	const [pending, setPending] = useState<SocialProviderId | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	if (providers.length === 0) {
+		return null;
+	}
+
+	const submit = async (provider: SocialProviderId) => {
+		setError(null);
+		setPending(provider);
+		await signIn.social(
+			{ provider, callbackURL: `${window.location.origin}/feed` },
+			{
+				onError: (e) => {
+					console.error(`Error signing in with ${provider}:`, e);
+					setError(`Could not sign in with ${providerLabels[provider]}.`);
+					setPending(null);
+				},
+			},
+		);
+	};
+
+	return (
+		<>
+			<Spacer className="py-1 md:py-6" />
+
+			{/* Social login options */}
+			<div className="space-y-3 mt-4">
+				{providers.map((provider) => (
+					<Button
+						key={provider}
+						type="button"
+						className="w-full"
+						variant="secondary"
+						disabled={pending !== null}
+						onClick={() => submit(provider)}
+					>
+						<SocialProviderIcon provider={provider} />
+						{verb} with {providerLabels[provider]}
+					</Button>
+				))}
+				{error && <div className="text-red-500 text-sm">{error}</div>}
+			</div>
+		</>
+	);
+}
@@ -1,7 +1,20 @@
 import type React from "react";
+import {
+	type ImageFit,
+	MAX_IMAGE_DIMENSION,
+	RESPONSIVE_IMAGE_WIDTHS,
+	imageUrl,
+	isTransformableUrl,
+} from "~~/images";
 
-interface ImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
-	src: string;
+/**
+ * A URL, or an uploaded attachment as serialized by the server
+ */
+export type ImageSource = string | { url: string };
+
+interface ImageProps
+	extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, "src"> {
+	src: ImageSource;
 	alt: string;
 	width?: number;
 	height?: number | string;
@@ -10,6 +23,20 @@ interface ImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
 	quality?: number;
 }
 
+const OBJECT_FIT_TO_IMAGE_FIT: Partial<
+	Record<NonNullable<ImageProps["objectFit"]>, ImageFit>
+> = {
+	contain: "contain",
+	cover: "cover",
+	"scale-down": "scale-down",
+};
+
+/**
+ * Renders an `<img>`, lazily by default. Uploaded images are served through
+ * the `/img` transform route at the rendered size: responsive images get a
+ * `srcset` of widths, fixed-size ones 1x and 2x variants no larger than the
+ * route allows. Other URLs are used as they are.
+ */
 const Image: React.FC<ImageProps> = ({
 	src,
 	alt,
@@ -17,8 +44,13 @@ const Image: React.FC<ImageProps> = ({
 	height,
 	layout,
 	objectFit,
+	quality,
+	sizes,
+	loading = "lazy",
+	decoding = "async",
 	...props
 }) => {
+	const url = typeof src === "string" ? src : src.url;
 	const imgStyle: React.CSSProperties = {
 		maxWidth: "100%",
 		height: "auto",
@@ -31,18 +63,79 @@ const Image: React.FC<ImageProps> = ({
 		imgStyle.left = 0;
 		imgStyle.bottom = 0;
 		imgStyle.right = 0;
+	} else if (layout === "responsive") {
+		imgStyle.width = "100%";
+		imgStyle.objectFit = objectFit;
 	} else {
 		imgStyle.width = width;
 		imgStyle.height = height;
+		imgStyle.objectFit = objectFit;
+	}
+
+	let transformed: Pick<
+		React.ImgHTMLAttributes<HTMLImageElement>,
+		"src" | "srcSet" | "sizes"
+	> = { src: url, sizes };
+	if (isTransformableUrl(url)) {
+		const fit = objectFit && OBJECT_FIT_TO_IMAGE_FIT[objectFit];
+		if (layout === "responsive" || layout === "fill") {
+			// Never offer a variant wider than the image is meant to be shown
+			const fitting = width
+				? RESPONSIVE_IMAGE_WIDTHS.filter((candidate) => candidate <= width * 2)
+				: RESPONSIVE_IMAGE_WIDTHS;
+			const widths =
+				fitting.length > 0 ? fitting : RESPONSIVE_IMAGE_WIDTHS.slice(0, 1);
+			transformed = {
+				src: imageUrl(url, { width: widths.at(-1), quality }),
+				srcSet: widths
+					.map(
+						(candidate) =>
+							`${imageUrl(url, { width: candidate, quality })} ${candidate}w`,
+					)
+					.join(", "),
+				sizes:
+					sizes ??
+					(width ? `(max-width: ${width}px) 100vw, ${width}px` : "100vw"),
+			};
+		} else {
+			const fixedHeight = typeof height === "number" ? height : undefined;
+			// Variants are scaled down, keeping their aspect ratio, to stay
+			// within the largest size the transform route accepts
+			const largest = Math.max(width ?? 0, fixedHeight ?? 0);
+			const scale = (density: number) =>
+				largest ? Math.min(density, MAX_IMAGE_DIMENSION / largest) : density;
+			const scaled = (dimension: number | undefined, factor: number) =>
+				dimension && Math.max(Math.floor(dimension * factor), 1);
+			const variant = (factor: number) =>
+				imageUrl(url, {
+					width: scaled(width, factor),
+					height: scaled(fixedHeight, factor),
+					fit: width && fixedHeight ? fit : undefined,
+					quality,
+				});
+			// A 2x variant is only offered when it is larger than the 1x one
+			const densities = scale(2) > scale(1) ? [1, 2] : [1];
+			transformed = {
+				src: variant(scale(1)),
+				srcSet: largest
+					? densities
+							.map((density) => `${variant(scale(density))} ${density}x`)
+							.join(", ")
+					: undefined,
+				sizes,
+			};
+		}
 	}
 
 	return (
 		<img
-			src={src}
+			{...transformed}
 			alt={alt}
 			style={imgStyle}
 			width={width}
 			height={height}
+			loading={loading}
+			decoding={decoding}
 			{...props}
 		/>
 	);
@@ -0,0 +1,63 @@
+import { useEffect, useRef } from "react";
+import type { FeedEvent } from "~~/services/feed-events";
+
+const KEEP_ALIVE_MS = 30_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * Subscribes to live feed events over a WebSocket for as long as the
+ * component is mounted, reconnecting with exponential backoff when the
+ * connection drops.
+ */
+export function useFeedEvents(onEvent: (event: FeedEvent) => void) {
+	const handler = useRef(onEvent);
+	handler.current = onEvent;
+
+	useEffect(() => {
+		let socket: WebSocket | undefined;
+		let reconnect: ReturnType<typeof setTimeout> | undefined;
+		let attempts = 0;
+		let stopped = false;
+
+		const connect = () => {
+			const url = new URL("/api/feed/socket", window.location.href);
+			url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+			socket = new WebSocket(url);
+			socket.onopen = () => {
+				attempts = 0;
+			};
+			socket.onmessage = (message) => {
+				if (message.data === "pong") {
+					return;
+				}
+				try {
+					handler.current(JSON.parse(message.data) as FeedEvent);
+				} catch (error) {
+					console.error("Ignoring malformed feed event:", error);
+				}
+			};
+			socket.onclose = () => {
+				if (!stopped) {
+					const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+					attempts += 1;
+					reconnect = setTimeout(connect, delay);
+				}
+			};
+		};
+
+		connect();
+		// Keeps proxies from closing the connection while the feed is quiet
+		const keepAlive = setInterval(() => {
+			if (socket?.readyState === WebSocket.OPEN) {
+				socket.send("ping");
+			}
+		}, KEEP_ALIVE_MS);
+
+		return () => {
+			stopped = true;
+			clearTimeout(reconnect);
+			clearInterval(keepAlive);
+			socket?.close();
+		};
+	}, []);
+}
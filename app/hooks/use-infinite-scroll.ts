@@ -0,0 +1,36 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Calls `onLoadMore` whenever the returned sentinel element scrolls into
+ * view. Put the sentinel after the last item of the list; it is ignored
+ * while `enabled` is false, e.g. while a page is loading or none is left.
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>(
+	onLoadMore: () => void,
+	enabled: boolean,
+) {
+	const sentinel = useRef<T>(null);
+	const loadMore = useRef(onLoadMore);
+	loadMore.current = onLoadMore;
+
+	useEffect(() => {
+		const element = sentinel.current;
+		if (!enabled || !element) {
+			return;
+		}
+		// With no explicit root, scroll containers such as ScrollArea still clip
+		// the sentinel, so it only intersects once it is scrolled into view
+		const observer = new IntersectionObserver(
+			(entries) => {
+				if (entries.some((entry) => entry.isIntersecting)) {
+					loadMore.current();
+				}
+			},
+			{ rootMargin: "200px" },
+		);
+		observer.observe(element);
+		return () => observer.disconnect();
+	}, [enabled]);
+
+	return sentinel;
+}
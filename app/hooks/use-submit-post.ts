@@ -1,4 +1,4 @@
-import { type SubmitTarget, useSubmit } from "react-router";
+import { type SubmitTarget, useFetcher, useSubmit } from "react-router";
 
 export function useSubmitPost() {
 	const submit = useSubmit();
@@ -9,3 +9,25 @@ export function useSubmitPost() {
 	};
 	return submitPost;
 }
+
+/**
+ * Like `useSubmitPost`, but submits through a fetcher so the page stays put
+ * and the pending JSON is available on `fetcher.json` for optimistic UI.
+ */
+export function useFetcherSubmitPost<T = unknown>(options?: {
+	key?: string;
+	/** Route to submit to; defaults to the closest route */
+	action?: string;
+}) {
+	const fetcher = useFetcher<T>({ key: options?.key });
+	const submitPost: (target: SubmitTarget) => Promise<void> = async (
+		target,
+	) => {
+		return fetcher.submit(target, {
+			method: "post",
+			action: options?.action,
+			encType: "application/json",
+		});
+	};
+	return { fetcher, submitPost };
+}
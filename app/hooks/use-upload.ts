@@ -0,0 +1,43 @@
+import { useState } from "react";
+import type { SerializedAttachment } from "~~/services/attachments";
+import { type AttachmentKind, FILE_NAME_HEADER } from "~~/uploads";
+
+/**
+ * Uploads files to `/api/uploads` one at a time, sending each as the raw
+ * request body, and tracks progress and the server's error message for the
+ * last failed upload.
+ */
+export function useUpload(kind: AttachmentKind) {
+	const [uploading, setUploading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const upload = async (file: File): Promise<SerializedAttachment | null> => {
+		setUploading(true);
+		setError(null);
+		try {
+			const response = await fetch(`/api/uploads?kind=${kind}`, {
+				method: "POST",
+				headers: {
+					"Content-Type": file.type || "application/octet-stream",
+					[FILE_NAME_HEADER]: encodeURIComponent(file.name),
+				},
+				body: file,
+			});
+			const result = (await response.json()) as
+				| { attachment: SerializedAttachment }
+				| { error: string };
+			if ("error" in result) {
+				setError(result.error);
+				return null;
+			}
+			return result.attachment;
+		} catch {
+			setError("The upload failed. Please try again.");
+			return null;
+		} finally {
+			setUploading(false);
+		}
+	};
+
+	return { upload, uploading, error };
+}
@@ -0,0 +1,17 @@
+import { type AppLoadContext, data } from "react-router";
+import { hasAdminRole } from "~~/roles";
+import { requireUser } from "./auth.server";
+
+/**
+ * Guards admin-only loaders and actions. Anonymous visitors are redirected to
+ * the login page, signed-in users without the admin role get a 403.
+ */
+export async function requireAdmin(context: AppLoadContext, request: Request) {
+	const { auth, session } = await requireUser(context, request);
+
+	if (!hasAdminRole(session.user.role)) {
+		throw data("Forbidden", { status: 403, statusText: "Forbidden" });
+	}
+
+	return { auth, session };
+}
@@ -0,0 +1,17 @@
+import { type AppLoadContext, redirect } from "react-router";
+import { authFactory } from "~~/auth";
+
+/**
+ * Loads the session for a signed-in-only loader or action, redirecting
+ * anonymous visitors to the login page.
+ */
+export async function requireUser(context: AppLoadContext, request: Request) {
+	const auth = await authFactory(context.cloudflare.env, request);
+	const session = await auth.api.getSession({ headers: request.headers });
+
+	if (!session || !session.user) {
+		throw redirect("/login");
+	}
+
+	return { auth, session, user: session.user };
+}
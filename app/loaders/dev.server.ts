@@ -0,0 +1,12 @@
+import { type AppLoadContext, data } from "react-router";
+import { isLocalDevMode } from "~~/dev-mode";
+
+/**
+ * Guards development tools. Outside a local dev server they respond with a
+ * 404, as if the route did not exist.
+ */
+export function requireDevMode(context: AppLoadContext, request: Request) {
+	if (!isLocalDevMode(context.cloudflare.env, request)) {
+		throw data("Not Found", { status: 404, statusText: "Not Found" });
+	}
+}
@@ -1,83 +1,336 @@
-import { CirclePlus } from "lucide-react";
 import { useEffect, useState } from "react";
-import { AppLayout } from "../components/app-layout";
-import { Button } from "../components/ui/button";
-
+import { data, useFetcher, useFetchers } from "react-router";
+import { AppLayout } from "~/components/app-layout";
+import { PostCard } from "~/components/post-card";
+import {
+	CREATE_POST_FETCHER_KEY,
+	PostComposer,
+} from "~/components/post-composer";
+import { PostSearchBox, PostSearchResults } from "~/components/post-search";
+import { ScrollArea } from "~/components/ui/scroll-area";
+import { Skeleton } from "~/components/ui/skeleton";
+import { useFeedEvents } from "~/hooks/use-feed-events";
+import { useInfiniteScroll } from "~/hooks/use-infinite-scroll";
+import { requireUser } from "~/loaders/auth.server";
+import { type Actor, canDeleteContent, canEditContent } from "~~/roles";
+import { publishFeedEvent } from "~~/services/feed-events";
 import {
-	type HeadersArgs,
-	Link,
-	type LoaderFunctionArgs,
-	data,
-	redirect,
-	useMatches,
-	useRouteLoaderData,
-} from "react-router";
-
-export async function loader({ context, params }: LoaderFunctionArgs) {
-	console.log("Loader context", params);
+	type PostActionResult,
+	type PostErrors,
+	type PostMutation,
+	type PublicPost,
+	type SerializedPost,
+	createPost,
+	decodePostCursor,
+	deletePost,
+	encodePostCursor,
+	listPostsPage,
+	parseAttachmentIds,
+	parsePageSize,
+	serializePosts,
+	toPublicPosts,
+	updatePost,
+	validatePostInput,
+} from "~~/services/posts";
+import { searchPosts } from "~~/services/search";
+import type { Route } from "./+types/_auth.feed";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Feed" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	const db = context.cloudflare.var.Database.client;
+	const url = new URL(request.url);
+	const q = url.searchParams.get("q")?.trim() ?? "";
+	const cursor = decodePostCursor(url.searchParams.get("cursor"));
+	const [page, searchResults] = await Promise.all([
+		listPostsPage(db, {
+			authorId: user.id,
+			cursor,
+			limit: parsePageSize(url.searchParams.get("limit")),
+		}),
+		q ? searchPosts(db, q) : null,
+	]);
+
+	return {
+		cursor: cursor ? encodePostCursor(cursor) : null,
+		posts: await serializePosts(context.cloudflare.env, db, user, page.posts),
+		nextCursor: page.nextCursor,
+		q,
+		searchResults,
+		viewer: { id: user.id, name: user.name, role: user.role ?? null },
+	};
+}
+
+function failure(
+	intent: PostActionResult["intent"],
+	errors: PostErrors,
+	status: number,
+) {
+	return data<PostActionResult>({ ok: false, intent, errors }, { status });
 }
 
-const FeedPage = () => {
-	const { user, session } = useRouteLoaderData("root");
+export async function action({ context, request }: Route.ActionArgs) {
+	const { user } = await requireUser(context, request);
+	const db = context.cloudflare.var.Database.client;
+	const payload = ((await request.json().catch(() => null)) ?? {}) as Record<
+		string,
+		unknown
+	>;
+	const id = typeof payload.id === "string" ? payload.id : "";
+
+	switch (payload.intent) {
+		case "create": {
+			const validation = validatePostInput(payload);
+			if (!validation.success) {
+				return failure("create", validation.errors, 400);
+			}
+			const post = await createPost(
+				db,
+				user.id,
+				validation.data,
+				parseAttachmentIds(payload.attachmentIds),
+			);
+			const [publicPost] = await toPublicPosts(context.cloudflare.env, db, [
+				{ ...post, authorName: user.name },
+			]);
+			context.cloudflare.ctx.waitUntil(
+				publishFeedEvent(context.cloudflare.env, {
+					type: "post.created",
+					post: publicPost,
+				}),
+			);
+			return data<PostActionResult>({
+				ok: true,
+				intent: "create",
+				id: post.id,
+			});
+		}
+		case "update": {
+			if (!id) {
+				return failure("update", { form: "Missing post id." }, 400);
+			}
+			const validation = validatePostInput(payload);
+			if (!validation.success) {
+				return failure("update", validation.errors, 400);
+			}
+			const post = await updatePost(db, user.id, id, validation.data);
+			if (!post) {
+				return failure("update", { form: "This post no longer exists." }, 404);
+			}
+			return data<PostActionResult>({ ok: true, intent: "update", id });
+		}
+		case "delete": {
+			if (!id) {
+				return failure("delete", { form: "Missing post id." }, 400);
+			}
+			const deleted = await deletePost(db, user, id);
+			if (deleted === "not_found") {
+				return failure("delete", { form: "This post no longer exists." }, 404);
+			}
+			if (deleted === "forbidden") {
+				return failure(
+					"delete",
+					{ form: "You can only delete your own posts." },
+					403,
+				);
+			}
+			return data<PostActionResult>({ ok: true, intent: "delete", id });
+		}
+		default:
+			return failure(null, { form: "Unknown intent." }, 400);
+	}
+}
+
+/**
+ * Posts that are being created right now, shown above the saved ones until
+ * the feed revalidates
+ */
+function usePendingPosts(viewer: {
+	id: string;
+	name: string;
+}): SerializedPost[] {
+	return useFetchers().flatMap((fetcher) => {
+		const mutation = fetcher.json as PostMutation | undefined;
+		if (
+			fetcher.key !== CREATE_POST_FETCHER_KEY ||
+			fetcher.state === "idle" ||
+			mutation?.intent !== "create"
+		) {
+			return [];
+		}
+		return [
+			{
+				id: `pending-${fetcher.key}`,
+				authorId: viewer.id,
+				authorName: viewer.name,
+				title: mutation.title,
+				body: mutation.body,
+				createdAt: new Date().toISOString(),
+				commentCount: 0,
+				reactionCounts: {},
+				viewerReactions: [],
+				canEdit: false,
+				canDelete: false,
+				attachments: [],
+			},
+		];
+	});
+}
+
+type FeedPageData = Awaited<ReturnType<typeof loader>>;
+
+/**
+ * The first page comes from the route loader, later ones are fetched through
+ * the same loader as the list scrolls. Fetched pages are keyed by their
+ * cursor, so when fetchers revalidate after a mutation each page is replaced
+ * rather than appended again; posts that moved between pages are
+ * de-duplicated.
+ */
+function useFeedPages(firstPage: FeedPageData) {
+	const fetcher = useFetcher<typeof loader>();
+	const [morePages, setMorePages] = useState<FeedPageData[]>([]);
 
 	useEffect(() => {
-		(async () => {
-			console.log("user xx", user, session);
-		})();
-	}, [user, session]);
-
-	// State for projects data - setProjects can be used for future updates
-	const [projects, setProjects] = useState([
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-		{
-			title: "Title Heading",
-			date: "Date",
-			description: "Today I have a DSA Assignments 2 and...",
-		},
-	]);
+		const page = fetcher.data;
+		if (page) {
+			setMorePages((pages) =>
+				pages.some((existing) => existing.cursor === page.cursor)
+					? pages.map((existing) =>
+							existing.cursor === page.cursor ? page : existing,
+						)
+					: [...pages, page],
+			);
+		}
+	}, [fetcher.data]);
+
+	const seen = new Set<string>();
+	const posts = [firstPage, ...morePages]
+		.flatMap((page) => page.posts)
+		.filter((post) => !seen.has(post.id) && seen.add(post.id));
+	const nextCursor = (morePages.at(-1) ?? firstPage).nextCursor;
+	const [requested, setRequested] = useState<string | null>(null);
+	// Revalidating pages already shown is not "loading more"
+	const loading =
+		fetcher.state !== "idle" &&
+		!morePages.some((page) => page.cursor === requested);
+
+	const loadMore = () => {
+		if (nextCursor && fetcher.state === "idle") {
+			setRequested(nextCursor);
+			fetcher.load(`/feed?${new URLSearchParams({ cursor: nextCursor })}`);
+		}
+	};
+
+	return { posts, nextCursor, loading, loadMore };
+}
+
+/**
+ * Merges live feed events into the loaded posts: new posts go on top and
+ * comment counts follow new comments. The hub only sends the viewer events
+ * about their own posts, which are all the feed lists. Counts give way to
+ * the loader's again whenever the feed revalidates.
+ */
+function useLiveFeed(
+	loaded: SerializedPost[],
+	firstPage: FeedPageData,
+	viewer: Actor,
+): SerializedPost[] {
+	const [livePosts, setLivePosts] = useState<PublicPost[]>([]);
+	const [commentCounts, setCommentCounts] = useState<Record<string, number>>(
+		{},
+	);
+
+	useFeedEvents((event) => {
+		switch (event.type) {
+			case "post.created":
+				setLivePosts((posts) => [event.post, ...posts]);
+				break;
+			case "comment.created":
+				setCommentCounts((counts) => ({
+					...counts,
+					[event.postId]: event.commentCount,
+				}));
+				break;
+		}
+	});
+
+	// biome-ignore lint/correctness/useExhaustiveDependencies: reset whenever the loader returns
+	useEffect(() => {
+		setCommentCounts({});
+	}, [firstPage]);
+
+	const loadedIds = new Set(loaded.map((post) => post.id));
+	const fresh = livePosts
+		.filter((post) => !loadedIds.has(post.id))
+		.map((post) => ({
+			...post,
+			viewerReactions: [],
+			canEdit: canEditContent(viewer, post.authorId),
+			canDelete: canDeleteContent(viewer, post.authorId),
+		}));
+	return [...fresh, ...loaded].map((post) =>
+		post.id in commentCounts
+			? { ...post, commentCount: commentCounts[post.id] }
+			: post,
+	);
+}
+
+function PostSkeleton() {
+	return (
+		<li className="rounded-xl border p-4 space-y-2">
+			<div className="flex justify-between">
+				<Skeleton className="h-5 w-1/3" />
+				<Skeleton className="h-4 w-16" />
+			</div>
+			<Skeleton className="h-4 w-full" />
+			<Skeleton className="h-4 w-2/3" />
+		</li>
+	);
+}
+
+const FeedPage = ({ loaderData }: Route.ComponentProps) => {
+	const { nextCursor, loading, loadMore, ...pages } = useFeedPages(loaderData);
+	const posts = useLiveFeed(pages.posts, loaderData, loaderData.viewer);
+	const pendingPosts = usePendingPosts(loaderData.viewer);
+	const { q, searchResults } = loaderData;
+	const sentinel = useInfiniteScroll(
+		loadMore,
+		!searchResults && !!nextCursor && !loading,
+	);
+
 	return (
 		<AppLayout heading="Feed">
-			<div className="flex justify-between items-center mb-4 text-black">
-				This is the feed page.
+			<div className="max-w-2xl mx-auto space-y-6">
+				<PostComposer />
+				<PostSearchBox />
+				<ScrollArea className="h-[60vh]">
+					{searchResults ? (
+						<PostSearchResults q={q} results={searchResults} />
+					) : posts.length === 0 && pendingPosts.length === 0 ? (
+						<p className="text-center text-gray-500">
+							Nobody has posted anything yet.
+						</p>
+					) : (
+						<ul className="space-y-4 pr-4">
+							{pendingPosts.map((post) => (
+								<PostCard key={post.id} post={post} pending />
+							))}
+							{posts.map((post) => (
+								<PostCard key={post.id} post={post} />
+							))}
+							{loading && (
+								<>
+									<PostSkeleton />
+									<PostSkeleton />
+								</>
+							)}
+						</ul>
+					)}
+					<div ref={sentinel} aria-hidden />
+				</ScrollArea>
 			</div>
 		</AppLayout>
 	);
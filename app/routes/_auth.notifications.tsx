@@ -0,0 +1,127 @@
+import { Form, data, useFetcher } from "react-router";
+import { AppLayout } from "~/components/app-layout";
+import { Button } from "~/components/ui/button";
+import { cn } from "~/lib/utils";
+import { requireUser } from "~/loaders/auth.server";
+import {
+	type SerializedNotification,
+	describeNotification,
+	listNotifications,
+	markAllNotificationsRead,
+	markNotificationRead,
+} from "~~/services/notifications";
+import type { Route } from "./+types/_auth.notifications";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Notifications" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	return {
+		notifications: await listNotifications(
+			context.cloudflare.var.Database.client,
+			user.id,
+		),
+	};
+}
+
+export async function action({ context, request }: Route.ActionArgs) {
+	const { user } = await requireUser(context, request);
+	const db = context.cloudflare.var.Database.client;
+	const formData = await request.formData();
+	const intent = String(formData.get("intent") ?? "");
+
+	switch (intent) {
+		case "read": {
+			const id = String(formData.get("id") ?? "");
+			if (!(await markNotificationRead(db, user.id, id))) {
+				return data({ error: "Notification not found." }, { status: 404 });
+			}
+			break;
+		}
+		case "read-all":
+			await markAllNotificationsRead(db, user.id);
+			break;
+		default:
+			return data({ error: `Unknown intent "${intent}".` }, { status: 400 });
+	}
+
+	return { ok: true, intent };
+}
+
+function NotificationRow({
+	notification,
+}: {
+	notification: SerializedNotification;
+}) {
+	const fetcher = useFetcher<typeof action>();
+	// Show it as read straight away
+	const read = notification.read || fetcher.state !== "idle";
+
+	return (
+		<li
+			className={cn(
+				"flex items-start justify-between gap-4 rounded-xl border p-4",
+				!read && "bg-blue-50 border-blue-200",
+			)}
+		>
+			<div>
+				<p className={cn("text-sm", !read && "font-semibold")}>
+					{describeNotification(notification)}
+				</p>
+				<time
+					dateTime={notification.createdAt}
+					className="text-xs text-gray-500"
+				>
+					{new Date(notification.createdAt).toLocaleString()}
+				</time>
+			</div>
+			{!read && (
+				<fetcher.Form method="post">
+					<input type="hidden" name="intent" value="read" />
+					<input type="hidden" name="id" value={notification.id} />
+					<Button type="submit" variant="ghost" size="sm">
+						Mark as read
+					</Button>
+				</fetcher.Form>
+			)}
+		</li>
+	);
+}
+
+export default function NotificationsPage({
+	loaderData,
+}: Route.ComponentProps) {
+	const { notifications } = loaderData;
+	const hasUnread = notifications.some((notification) => !notification.read);
+
+	return (
+		<AppLayout heading="Notifications">
+			<div className="max-w-2xl mx-auto space-y-4">
+				{hasUnread && (
+					<Form method="post" className="flex justify-end">
+						<input type="hidden" name="intent" value="read-all" />
+						<Button type="submit" variant="outline" size="sm">
+							Mark all as read
+						</Button>
+					</Form>
+				)}
+				{notifications.length === 0 ? (
+					<p className="text-center text-gray-500">
+						You have no notifications yet.
+					</p>
+				) : (
+					<ul className="space-y-2">
+						{notifications.map((notification) => (
+							<NotificationRow
+								key={notification.id}
+								notification={notification}
+							/>
+						))}
+					</ul>
+				)}
+			</div>
+		</AppLayout>
+	);
+}
@@ -0,0 +1,104 @@
+import { data } from "react-router";
+import { requireUser } from "~/loaders/auth.server";
+import {
+	type CommentActionResult,
+	type CommentErrors,
+	createComment,
+	deleteComment,
+	listCommentThreads,
+	validateCommentBody,
+} from "~~/services/comments";
+import { publishFeedEvent } from "~~/services/feed-events";
+import type { Route } from "./+types/_auth.posts.$postId.comments";
+
+/**
+ * Resource route for a post's comments, loaded and submitted to by fetchers
+ * on the feed
+ */
+export async function loader({ context, request, params }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	const threads = await listCommentThreads(
+		context.cloudflare.var.Database.client,
+		params.postId,
+		user,
+	);
+	if (!threads) {
+		throw data("Not Found", { status: 404, statusText: "Not Found" });
+	}
+	return { threads };
+}
+
+function failure(
+	intent: CommentActionResult["intent"],
+	errors: CommentErrors,
+	status: number,
+) {
+	return data<CommentActionResult>({ ok: false, intent, errors }, { status });
+}
+
+export async function action({ context, request, params }: Route.ActionArgs) {
+	const { user } = await requireUser(context, request);
+	const db = context.cloudflare.var.Database.client;
+	const payload = ((await request.json().catch(() => null)) ?? {}) as Record<
+		string,
+		unknown
+	>;
+
+	switch (payload.intent) {
+		case "create": {
+			const validation = validateCommentBody(payload.body);
+			if (!validation.success) {
+				return failure("create", validation.errors, 400);
+			}
+			const comment = await createComment(db, user.id, {
+				postId: params.postId,
+				parentId:
+					typeof payload.parentId === "string" ? payload.parentId : null,
+				body: validation.data,
+			});
+			if (!comment) {
+				return failure(
+					"create",
+					{ form: "This post or comment no longer exists." },
+					404,
+				);
+			}
+			context.cloudflare.ctx.waitUntil(
+				publishFeedEvent(context.cloudflare.env, {
+					type: "comment.created",
+					postId: params.postId,
+					postAuthorId: comment.postAuthorId,
+					commentId: comment.id,
+					parentId: comment.parentId,
+					commentCount: comment.commentCount,
+				}),
+			);
+			return data<CommentActionResult>({
+				ok: true,
+				intent: "create",
+				id: comment.id,
+			});
+		}
+		case "delete": {
+			const id = typeof payload.id === "string" ? payload.id : "";
+			const deleted = await deleteComment(db, user, params.postId, id);
+			if (deleted === "not_found") {
+				return failure(
+					"delete",
+					{ form: "This comment no longer exists." },
+					404,
+				);
+			}
+			if (deleted === "forbidden") {
+				return failure(
+					"delete",
+					{ form: "You can only delete your own comments." },
+					403,
+				);
+			}
+			return data<CommentActionResult>({ ok: true, intent: "delete", id });
+		}
+		default:
+			return failure(null, { form: "Unknown intent." }, 400);
+	}
+}
@@ -0,0 +1,33 @@
+import { data } from "react-router";
+import { requireUser } from "~/loaders/auth.server";
+import { isReactionName } from "~~/reactions";
+import { toggleReaction } from "~~/services/reactions";
+import type { Route } from "./+types/_auth.posts.$postId.reactions";
+
+/**
+ * Toggles one of the signed-in user's reactions on a post
+ */
+export async function action({ context, request, params }: Route.ActionArgs) {
+	const { user } = await requireUser(context, request);
+	const payload = ((await request.json().catch(() => null)) ?? {}) as Record<
+		string,
+		unknown
+	>;
+	if (!isReactionName(payload.reaction)) {
+		return data({ ok: false, error: "Unknown reaction." }, { status: 400 });
+	}
+
+	const result = await toggleReaction(
+		context.cloudflare.var.Database.client,
+		user.id,
+		params.postId,
+		payload.reaction,
+	);
+	if (!result) {
+		return data(
+			{ ok: false, error: "This post no longer exists." },
+			{ status: 404 },
+		);
+	}
+	return { ok: true, reacted: result.reacted };
+}
@@ -0,0 +1,156 @@
+import { APIError } from "better-auth/api";
+import { useState } from "react";
+import { data, useFetcher } from "react-router";
+import {
+	SocialProviderIcon,
+	socialProviderLabel,
+} from "~/components/social-sign-in";
+import { Button } from "~/components/ui/button";
+import { requireUser } from "~/loaders/auth.server";
+import { authClient } from "~~/auth-client";
+import {
+	SOCIAL_PROVIDER_IDS,
+	type SocialProviderId,
+	getEnabledSocialProviders,
+} from "~~/social-providers";
+import type { Route } from "./+types/_auth.settings.accounts";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Linked accounts" }];
+}
+
+function isSocialProvider(provider: string): provider is SocialProviderId {
+	return (SOCIAL_PROVIDER_IDS as readonly string[]).includes(provider);
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { auth } = await requireUser(context, request);
+	const accounts = await auth.api.listUserAccounts({
+		headers: request.headers,
+	});
+
+	return {
+		linkedAccounts: accounts
+			.filter((account) => isSocialProvider(account.provider))
+			.map((account) => ({
+				id: account.id,
+				accountId: account.accountId,
+				provider: account.provider as SocialProviderId,
+				linkedAt: account.createdAt.toISOString(),
+			})),
+		availableProviders: getEnabledSocialProviders(context.cloudflare.env),
+	};
+}
+
+export async function action({ context, request }: Route.ActionArgs) {
+	const { auth } = await requireUser(context, request);
+	const formData = await request.formData();
+	const providerId = String(formData.get("providerId") ?? "");
+	const accountId = String(formData.get("accountId") ?? "");
+	if (!isSocialProvider(providerId) || !accountId) {
+		return data({ error: "Unknown account." }, { status: 400 });
+	}
+
+	try {
+		await auth.api.unlinkAccount({
+			body: { providerId, accountId },
+			headers: request.headers,
+		});
+	} catch (error) {
+		if (error instanceof APIError) {
+			return data(
+				{ error: error.body?.message ?? error.message },
+				{ status: error.statusCode },
+			);
+		}
+		throw error;
+	}
+
+	return { ok: true };
+}
+
+function LinkedAccount({
+	account,
+}: {
+	account: Route.ComponentProps["loaderData"]["linkedAccounts"][number];
+}) {
+	const fetcher = useFetcher<typeof action>();
+	const error =
+		fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+
+	return (
+		<li className="rounded-md border p-3">
+			<div className="flex items-center justify-between">
+				<span className="flex items-center">
+					<SocialProviderIcon provider={account.provider} />
+					{socialProviderLabel(account.provider)}
+				</span>
+				<span className="flex items-center gap-2 text-xs text-gray-500">
+					Linked {new Date(account.linkedAt).toLocaleDateString()}
+					<fetcher.Form method="post">
+						<input type="hidden" name="providerId" value={account.provider} />
+						<input type="hidden" name="accountId" value={account.accountId} />
+						<Button
+							type="submit"
+							variant="ghost"
+							size="sm"
+							disabled={fetcher.state !== "idle"}
+						>
+							Unlink
+						</Button>
+					</fetcher.Form>
+				</span>
+			</div>
+			{error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+		</li>
+	);
+}
+
+export default function AccountsSettings({ loaderData }: Route.ComponentProps) {
+	const { linkedAccounts, availableProviders } = loaderData;
+	const [pending, setPending] = useState<SocialProviderId | null>(null);
+	const linked = new Set(linkedAccounts.map((account) => account.provider));
+	const unlinked = availableProviders.filter(
+		(provider) => !linked.has(provider),
+	);
+
+	const link = async (provider: SocialProviderId) => {
+		setPending(provider);
+		await authClient.linkSocial(
+			{ provider, callbackURL: `${window.location.origin}/settings/accounts` },
+			{ onError: () => setPending(null) },
+		);
+	};
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Linked accounts</h2>
+
+			{linkedAccounts.length === 0 ? (
+				<p className="text-sm text-gray-500">
+					No social accounts are linked yet.
+				</p>
+			) : (
+				<ul className="space-y-2">
+					{linkedAccounts.map((account) => (
+						<LinkedAccount key={account.id} account={account} />
+					))}
+				</ul>
+			)}
+
+			{unlinked.map((provider) => (
+				<Button
+					key={provider}
+					type="button"
+					className="w-full"
+					variant="secondary"
+					disabled={pending !== null}
+					onClick={() => link(provider)}
+				>
+					<SocialProviderIcon provider={provider} />
+					Link {socialProviderLabel(provider)}
+				</Button>
+			))}
+		</section>
+	);
+}
@@ -0,0 +1,164 @@
+import { useEffect } from "react";
+import { data, useFetcher, useRevalidator } from "react-router";
+import { Button } from "~/components/ui/button";
+import { requireUser } from "~/loaders/auth.server";
+import {
+	DATA_EXPORT_FORMATS,
+	deliverDataExport,
+	isDataExportFormat,
+	listDataExports,
+	requestDataExport,
+} from "~~/services/data-export";
+import type { Route } from "./+types/_auth.settings.data";
+
+const POLL_INTERVAL_MS = 3000;
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Your data" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	return {
+		exports: await listDataExports(
+			context.cloudflare.env,
+			context.cloudflare.var.Database.client,
+			user.id,
+		),
+	};
+}
+
+/**
+ * Records the request and builds the export after responding; the page polls
+ * until it is ready and the user is also emailed a link.
+ */
+export async function action({ context, request }: Route.ActionArgs) {
+	const { user } = await requireUser(context, request);
+	const { env, var: vars, ctx } = context.cloudflare;
+	const formData = await request.formData();
+	const format = formData.get("format");
+	if (!isDataExportFormat(format)) {
+		return data({ error: "Choose a format." }, { status: 400 });
+	}
+
+	const dataExport = await requestDataExport(
+		vars.Database.client,
+		user.id,
+		format,
+	);
+	if (!dataExport) {
+		return data(
+			{ error: "An export is already being prepared." },
+			{ status: 409 },
+		);
+	}
+	await vars.recordAuditEvent({
+		type: "data_export.requested",
+		actorId: user.id,
+		targetUserId: user.id,
+		metadata: { format },
+	});
+	ctx.waitUntil(
+		deliverDataExport(env, vars.Database.client, dataExport, {
+			email: user.email,
+			locale: request.headers.get("Accept-Language"),
+			origin: new URL(request.url).origin,
+		}),
+	);
+
+	return { ok: true };
+}
+
+function formatSize(bytes: number) {
+	return bytes < 1024 * 1024
+		? `${Math.ceil(bytes / 1024)} KB`
+		: `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function DataSettings({ loaderData }: Route.ComponentProps) {
+	const { exports } = loaderData;
+	const fetcher = useFetcher<typeof action>();
+	const revalidator = useRevalidator();
+	const error =
+		fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+	const pending = exports.some((item) => item.status === "pending");
+
+	useEffect(() => {
+		if (!pending) {
+			return;
+		}
+		const timer = setInterval(() => {
+			if (revalidator.state === "idle") {
+				revalidator.revalidate();
+			}
+		}, POLL_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [pending, revalidator]);
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Your data</h2>
+			<p className="text-sm text-gray-600">
+				Download a copy of your profile, posts, comments, reactions, sessions
+				and account activity. We'll email you a link when it's ready; links work
+				for 7 days.
+			</p>
+
+			<fetcher.Form method="post" className="flex items-center gap-4">
+				{DATA_EXPORT_FORMATS.map((format, index) => (
+					<label key={format} className="flex items-center gap-1 text-sm">
+						<input
+							type="radio"
+							name="format"
+							value={format}
+							defaultChecked={index === 0}
+						/>
+						{format === "zip" ? "ZIP of JSON files" : "Single JSON file"}
+					</label>
+				))}
+				<Button
+					type="submit"
+					className="ml-auto"
+					disabled={pending || fetcher.state !== "idle"}
+				>
+					Request export
+				</Button>
+			</fetcher.Form>
+			{error && <p className="text-red-500 text-sm">{error}</p>}
+
+			{exports.length > 0 && (
+				<ul className="space-y-2">
+					{exports.map((item) => (
+						<li
+							key={item.id}
+							className="flex items-center justify-between rounded-md border p-3 text-sm"
+						>
+							<span>
+								{new Date(item.createdAt).toLocaleString()} ·{" "}
+								{item.format.toUpperCase()}
+								{item.size !== null && ` · ${formatSize(item.size)}`}
+							</span>
+							{item.status === "pending" && (
+								<span className="text-gray-500">Preparing…</span>
+							)}
+							{item.status === "failed" && (
+								<span className="text-red-500">Failed</span>
+							)}
+							{item.status === "ready" &&
+								(item.downloadUrl ? (
+									<a
+										href={item.downloadUrl}
+										className="text-blue-600 underline"
+									>
+										Download
+									</a>
+								) : (
+									<span className="text-gray-500">Expired</span>
+								))}
+						</li>
+					))}
+				</ul>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,153 @@
+import { data, useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { requireUser } from "~/loaders/auth.server";
+import {
+	ACCOUNT_DELETION_GRACE_MS,
+	cancelAccountDeletion,
+	getAccountDeletion,
+	scheduleAccountDeletion,
+	signCancelDeletionUrl,
+} from "~~/services/account-deletion";
+import { createEmailService } from "~~/services/email-providers";
+import type { Route } from "./+types/_auth.settings.delete";
+
+const GRACE_DAYS = ACCOUNT_DELETION_GRACE_MS / (24 * 60 * 60 * 1000);
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Delete account" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	const deletion = await getAccountDeletion(
+		context.cloudflare.var.Database.client,
+		user.id,
+	);
+	return {
+		email: user.email,
+		scheduledFor: deletion?.scheduledFor.toISOString() ?? null,
+	};
+}
+
+/**
+ * Schedules the account for deletion after a grace period, or cancels a
+ * scheduled deletion. The confirmation email carries a link that cancels it
+ * without signing in.
+ */
+export async function action({ context, request }: Route.ActionArgs) {
+	const { user } = await requireUser(context, request);
+	const { env, var: vars } = context.cloudflare;
+	const formData = await request.formData();
+	const intent = formData.get("intent");
+
+	if (intent === "cancel") {
+		if (await cancelAccountDeletion(vars.Database.client, user.id)) {
+			await vars.recordAuditEvent({
+				type: "account.deletion_cancelled",
+				actorId: user.id,
+				targetUserId: user.id,
+			});
+		}
+		return { ok: true, intent };
+	}
+
+	if (intent === "schedule") {
+		const confirmation = String(formData.get("confirmation") ?? "")
+			.trim()
+			.toLowerCase();
+		if (confirmation !== user.email.toLowerCase()) {
+			return data(
+				{ error: "Type your email address to confirm." },
+				{ status: 400 },
+			);
+		}
+
+		const deletion = await scheduleAccountDeletion(
+			vars.Database.client,
+			user.id,
+		);
+		await vars.recordAuditEvent({
+			type: "account.deletion_requested",
+			actorId: user.id,
+			targetUserId: user.id,
+			metadata: { scheduledFor: deletion.scheduledFor.toISOString() },
+		});
+		const result = await createEmailService(env).sendAccountDeletionScheduled({
+			email: user.email,
+			locale: request.headers.get("Accept-Language"),
+			scheduledFor: deletion.scheduledFor,
+			cancelUrl: await signCancelDeletionUrl(
+				env,
+				new URL(request.url).origin,
+				deletion,
+			),
+		});
+		if (!result.success) {
+			// The deletion can still be cancelled from this page
+			console.error("Failed to send account deletion email:", result.error);
+		}
+		return { ok: true, intent };
+	}
+
+	return data({ error: "Unknown action" }, { status: 400 });
+}
+
+export default function DeleteAccountSettings({
+	loaderData,
+}: Route.ComponentProps) {
+	const fetcher = useFetcher<typeof action>();
+	const error =
+		fetcher.state === "idle" && fetcher.data && "error" in fetcher.data
+			? fetcher.data.error
+			: null;
+
+	if (loaderData.scheduledFor) {
+		return (
+			<section className="space-y-4">
+				<h2 className="text-lg font-semibold">Delete account</h2>
+				<p className="text-sm">
+					Your account is scheduled to be deleted on{" "}
+					<strong>
+						{new Date(loaderData.scheduledFor).toLocaleDateString(undefined, {
+							dateStyle: "long",
+						})}
+					</strong>
+					. Until then you can keep using it and cancel at any time.
+				</p>
+				<fetcher.Form method="post">
+					<input type="hidden" name="intent" value="cancel" />
+					<Button type="submit" disabled={fetcher.state !== "idle"}>
+						Keep my account
+					</Button>
+				</fetcher.Form>
+			</section>
+		);
+	}
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Delete account</h2>
+			<p className="text-sm text-gray-600">
+				Your account will be deleted {GRACE_DAYS} days after you confirm, along
+				with your profile, posts, comments, reactions and uploads. You can
+				cancel until then; after that it cannot be undone.
+			</p>
+			<fetcher.Form method="post" className="space-y-2">
+				<input type="hidden" name="intent" value="schedule" />
+				<label htmlFor="confirmation" className="text-sm font-medium">
+					Type <strong>{loaderData.email}</strong> to confirm
+				</label>
+				<Input id="confirmation" name="confirmation" autoComplete="off" />
+				{error && <p className="text-red-500 text-sm">{error}</p>}
+				<Button
+					type="submit"
+					variant="destructive"
+					disabled={fetcher.state !== "idle"}
+				>
+					Delete my account
+				</Button>
+			</fetcher.Form>
+		</section>
+	);
+}
@@ -0,0 +1,114 @@
+import { APIError } from "better-auth/api";
+import { data, useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { requireUser } from "~/loaders/auth.server";
+import { validateEmail } from "~~/services/registration";
+import type { Route } from "./+types/_auth.settings.email";
+
+/**
+ * Errors better-auth adds to the callback URL when a confirmation or
+ * verification link fails
+ */
+const LINK_ERRORS: Record<string, string> = {
+	token_expired: "That link has expired. Please request the change again.",
+	invalid_token: "That link is invalid. Please request the change again.",
+	unauthorized:
+		"Open the confirmation link in a browser where you are signed in to this account.",
+	user_not_found: "That link no longer matches your account.",
+};
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Email settings" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	const error = new URL(request.url).searchParams.get("error");
+	return {
+		email: user.email,
+		emailVerified: user.emailVerified,
+		linkError: error ? (LINK_ERRORS[error] ?? LINK_ERRORS.invalid_token) : null,
+	};
+}
+
+/**
+ * Verified addresses only change once the change is approved from a link sent
+ * to the current address; the new address then gets its own verification
+ * link. Unverified addresses are replaced straight away.
+ */
+export async function action({ context, request }: Route.ActionArgs) {
+	const { auth, user } = await requireUser(context, request);
+	const formData = await request.formData();
+	const newEmail = String(formData.get("email") ?? "")
+		.trim()
+		.toLowerCase();
+
+	const error = validateEmail(newEmail);
+	if (error) {
+		return data({ error }, { status: 400 });
+	}
+
+	try {
+		await auth.api.changeEmail({
+			body: { newEmail, callbackURL: "/settings/email" },
+			headers: request.headers,
+		});
+	} catch (error) {
+		if (error instanceof APIError) {
+			return data(
+				{ error: error.body?.message ?? error.message },
+				{ status: error.statusCode },
+			);
+		}
+		throw error;
+	}
+
+	return {
+		ok: true,
+		message: user.emailVerified
+			? `We sent a confirmation link to ${user.email}. Open it to approve the change to ${newEmail}.`
+			: `Your email is now ${newEmail}. Check that inbox for a verification link.`,
+	};
+}
+
+export default function EmailSettings({ loaderData }: Route.ComponentProps) {
+	const { email, emailVerified, linkError } = loaderData;
+	const fetcher = useFetcher<typeof action>();
+	const result = fetcher.state === "idle" ? fetcher.data : undefined;
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Email</h2>
+			<p className="text-sm">
+				Your email is <strong>{email}</strong>{" "}
+				{emailVerified ? (
+					<span className="text-green-600">(verified)</span>
+				) : (
+					<span className="text-amber-600">
+						(not verified, check your inbox for the verification link)
+					</span>
+				)}
+			</p>
+			{linkError && <p className="text-red-500 text-sm">{linkError}</p>}
+
+			<fetcher.Form method="post" className="space-y-2">
+				<label htmlFor="email" className="text-sm font-medium">
+					New email
+				</label>
+				<div className="flex gap-2">
+					<Input id="email" name="email" type="email" required />
+					<Button type="submit" disabled={fetcher.state !== "idle"}>
+						Change
+					</Button>
+				</div>
+				{result && "error" in result && (
+					<p className="text-red-500 text-sm">{result.error}</p>
+				)}
+				{result && "ok" in result && (
+					<p className="text-green-600 text-sm">{result.message}</p>
+				)}
+			</fetcher.Form>
+		</section>
+	);
+}
@@ -0,0 +1,164 @@
+import { APIError } from "better-auth/api";
+import { useRef } from "react";
+import { data, useFetcher, useRevalidator } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Image } from "~/components/ui/image";
+import { Input } from "~/components/ui/input";
+import { useUpload } from "~/hooks/use-upload";
+import { requireUser } from "~/loaders/auth.server";
+import { validateName } from "~~/services/registration";
+import { UPLOAD_RULES } from "~~/uploads";
+import type { Route } from "./+types/_auth.settings.profile";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Profile settings" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { user } = await requireUser(context, request);
+	return { user: { name: user.name, image: user.image || null } };
+}
+
+export async function action({ context, request }: Route.ActionArgs) {
+	const { auth } = await requireUser(context, request);
+	const formData = await request.formData();
+	const intent = String(formData.get("intent") ?? "");
+
+	try {
+		switch (intent) {
+			case "update-name": {
+				const name = String(formData.get("name") ?? "").trim();
+				const error = validateName(name);
+				if (error) {
+					return data({ error }, { status: 400 });
+				}
+				await auth.api.updateUser({
+					body: { name },
+					headers: request.headers,
+				});
+				break;
+			}
+			case "remove-avatar":
+				// updateUser can't set null, and an empty image reads as none
+				await auth.api.updateUser({
+					body: { image: "" },
+					headers: request.headers,
+				});
+				break;
+			default:
+				return data({ error: `Unknown intent "${intent}".` }, { status: 400 });
+		}
+	} catch (error) {
+		if (error instanceof APIError) {
+			return data(
+				{ error: error.body?.message ?? error.message },
+				{ status: error.statusCode },
+			);
+		}
+		throw error;
+	}
+
+	return { ok: true, intent };
+}
+
+function NameForm({ name }: { name: string }) {
+	const fetcher = useFetcher<typeof action>();
+	const error =
+		fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+	const saved =
+		fetcher.state === "idle" && fetcher.data && "ok" in fetcher.data;
+
+	return (
+		<fetcher.Form method="post" className="space-y-2">
+			<input type="hidden" name="intent" value="update-name" />
+			<label htmlFor="name" className="text-sm font-medium">
+				Name
+			</label>
+			<div className="flex gap-2">
+				<Input id="name" name="name" defaultValue={name} required />
+				<Button type="submit" disabled={fetcher.state !== "idle"}>
+					Save
+				</Button>
+			</div>
+			{error && <p className="text-red-500 text-sm">{error}</p>}
+			{saved && <p className="text-green-600 text-sm">Your name was saved.</p>}
+		</fetcher.Form>
+	);
+}
+
+function AvatarForm({ name, image }: { name: string; image: string | null }) {
+	const fileInput = useRef<HTMLInputElement>(null);
+	const { upload, uploading, error } = useUpload("avatar");
+	const revalidator = useRevalidator();
+	const fetcher = useFetcher<typeof action>();
+
+	// The upload endpoint sets the new avatar itself
+	const onFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		event.target.value = "";
+		if (file && (await upload(file))) {
+			revalidator.revalidate();
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<span className="text-sm font-medium">Avatar</span>
+			<div className="flex items-center gap-4">
+				{image ? (
+					<Image
+						src={image}
+						alt={name}
+						width={64}
+						height={64}
+						objectFit="cover"
+						className="rounded-full border"
+					/>
+				) : (
+					<span className="flex size-16 items-center justify-center rounded-full border text-xl font-semibold text-gray-500">
+						{name.charAt(0).toUpperCase()}
+					</span>
+				)}
+				<input
+					ref={fileInput}
+					type="file"
+					accept={UPLOAD_RULES.avatar.contentTypes.join(",")}
+					onChange={onFileChange}
+					className="hidden"
+				/>
+				<Button
+					type="button"
+					variant="secondary"
+					disabled={uploading}
+					onClick={() => fileInput.current?.click()}
+				>
+					{uploading ? "Uploading…" : "Change avatar"}
+				</Button>
+				{image && (
+					<fetcher.Form method="post">
+						<input type="hidden" name="intent" value="remove-avatar" />
+						<Button
+							type="submit"
+							variant="ghost"
+							disabled={fetcher.state !== "idle"}
+						>
+							Remove
+						</Button>
+					</fetcher.Form>
+				)}
+			</div>
+			{error && <p className="text-red-500 text-sm">{error}</p>}
+		</div>
+	);
+}
+
+export default function ProfileSettings({ loaderData }: Route.ComponentProps) {
+	const { user } = loaderData;
+	return (
+		<section className="space-y-6">
+			<h2 className="text-lg font-semibold">Profile</h2>
+			<AvatarForm name={user.name} image={user.image} />
+			<NameForm name={user.name} />
+		</section>
+	);
+}
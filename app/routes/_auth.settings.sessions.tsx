@@ -0,0 +1,164 @@
+import { APIError } from "better-auth/api";
+import { Form, data, useFetcher, useNavigation } from "react-router";
+import { Button } from "~/components/ui/button";
+import { requireUser } from "~/loaders/auth.server";
+import {
+	type SerializedSession,
+	findSessionToken,
+	listUserSessions,
+} from "~~/services/sessions";
+import type { Route } from "./+types/_auth.settings.sessions";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Sessions" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { session, user } = await requireUser(context, request);
+	return {
+		sessions: await listUserSessions(
+			context.cloudflare.var.Database.client,
+			user.id,
+			session.session.id,
+		),
+	};
+}
+
+/**
+ * Revokes through better-auth, which deletes the session from D1 and its
+ * KV entry, so a revoked session stops working on its next request.
+ */
+export async function action({ context, request }: Route.ActionArgs) {
+	const { auth, session, user } = await requireUser(context, request);
+	const formData = await request.formData();
+	const intent = String(formData.get("intent") ?? "");
+
+	try {
+		switch (intent) {
+			case "revoke": {
+				const id = String(formData.get("id") ?? "");
+				if (id === session.session.id) {
+					return data(
+						{ error: "Sign out to end the session on this device." },
+						{ status: 400 },
+					);
+				}
+				const token = await findSessionToken(
+					context.cloudflare.var.Database.client,
+					user.id,
+					id,
+				);
+				if (!token) {
+					return data({ error: "Session not found." }, { status: 404 });
+				}
+				await auth.api.revokeSession({
+					body: { token },
+					headers: request.headers,
+				});
+				break;
+			}
+			case "revoke-others":
+				await auth.api.revokeOtherSessions({ headers: request.headers });
+				break;
+			default:
+				return data({ error: `Unknown intent "${intent}".` }, { status: 400 });
+		}
+	} catch (error) {
+		if (error instanceof APIError) {
+			return data(
+				{ error: error.body?.message ?? error.message },
+				{ status: error.statusCode },
+			);
+		}
+		throw error;
+	}
+
+	return { ok: true, intent };
+}
+
+function SessionRow({ session }: { session: SerializedSession }) {
+	const fetcher = useFetcher<typeof action>();
+	const error =
+		fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+
+	// Hide it straight away; a failed revoke brings it back with the error
+	if (fetcher.state !== "idle") {
+		return null;
+	}
+
+	return (
+		<li className="rounded-md border p-3">
+			<div className="flex items-start justify-between gap-4">
+				<div className="text-sm">
+					<p className="font-medium">
+						{session.browser} on {session.device}
+						{session.current && (
+							<span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-xs text-green-700">
+								This device
+							</span>
+						)}
+					</p>
+					<p className="text-gray-500">
+						{[session.location, session.ipAddress]
+							.filter(Boolean)
+							.join(" · ") || "Unknown location"}
+					</p>
+					<p className="text-xs text-gray-500">
+						Last active {new Date(session.lastActiveAt).toLocaleString()} ·
+						Signed in {new Date(session.createdAt).toLocaleDateString()}
+					</p>
+				</div>
+				{!session.current && (
+					<fetcher.Form method="post">
+						<input type="hidden" name="intent" value="revoke" />
+						<input type="hidden" name="id" value={session.id} />
+						<Button type="submit" variant="ghost" size="sm">
+							Revoke
+						</Button>
+					</fetcher.Form>
+				)}
+			</div>
+			{error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+		</li>
+	);
+}
+
+export default function SessionsSettings({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const { sessions } = loaderData;
+	const navigation = useNavigation();
+	const hasOthers = sessions.some((session) => !session.current);
+
+	return (
+		<section className="space-y-4">
+			<h2 className="text-lg font-semibold">Sessions</h2>
+			<p className="text-sm text-gray-600">
+				These devices are signed in to your account. Revoke any you don't
+				recognise.
+			</p>
+			<ul className="space-y-2">
+				{sessions.map((session) => (
+					<SessionRow key={session.id} session={session} />
+				))}
+			</ul>
+			{hasOthers && (
+				<Form method="post">
+					<input type="hidden" name="intent" value="revoke-others" />
+					<Button
+						type="submit"
+						variant="secondary"
+						className="w-full"
+						disabled={navigation.state !== "idle"}
+					>
+						Sign out all other sessions
+					</Button>
+				</Form>
+			)}
+			{actionData && "error" in actionData && (
+				<p className="text-red-500 text-sm">{actionData.error}</p>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,51 @@
+import { NavLink, Outlet } from "react-router";
+import { AppLayout } from "~/components/app-layout";
+import { cn } from "~/lib/utils";
+import { requireUser } from "~/loaders/auth.server";
+import type { Route } from "./+types/_auth.settings";
+
+const SECTIONS = [
+	{ to: "/settings/profile", label: "Profile" },
+	{ to: "/settings/email", label: "Email" },
+	{ to: "/settings/accounts", label: "Linked accounts" },
+	{ to: "/settings/sessions", label: "Sessions" },
+	{ to: "/settings/data", label: "Your data" },
+	{ to: "/settings/delete", label: "Delete account" },
+];
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	await requireUser(context, request);
+	return null;
+}
+
+/**
+ * Settings area; each section is a nested route with its own loader and
+ * action.
+ */
+export default function SettingsLayout() {
+	return (
+		<AppLayout heading="Settings">
+			<div className="max-w-md mx-auto space-y-8">
+				<nav className="flex flex-wrap justify-center gap-2">
+					{SECTIONS.map((section) => (
+						<NavLink
+							key={section.to}
+							to={section.to}
+							className={({ isActive }) =>
+								cn(
+									"rounded-md px-3 py-1.5 text-sm",
+									isActive
+										? "bg-gray-900 text-white"
+										: "text-gray-600 hover:bg-gray-100",
+								)
+							}
+						>
+							{section.label}
+						</NavLink>
+					))}
+				</nav>
+				<Outlet />
+			</div>
+		</AppLayout>
+	);
+}
@@ -7,6 +7,7 @@ import {
 	redirect,
 } from "react-router";
 import { authFactory } from "~~/auth";
+import { countUnreadNotifications } from "~~/services/notifications";
 
 export async function loader(args: LoaderFunctionArgs) {
 	const c: AppLoadContext = args.context;
@@ -20,6 +21,13 @@ export async function loader(args: LoaderFunctionArgs) {
 	if (!session || !session.user) {
 		return redirect("/login");
 	}
+
+	return {
+		unreadNotifications: await countUnreadNotifications(
+			c.cloudflare.var.Database.client,
+			session.user.id,
+		),
+	};
 }
 
 export default function Protected() {
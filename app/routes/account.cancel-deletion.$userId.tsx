@@ -0,0 +1,112 @@
+import type { ReactNode } from "react";
+import { Form, Link, data, isRouteErrorResponse } from "react-router";
+import { LoginLayout } from "~/components/login-layout";
+import { Button } from "~/components/ui/button";
+import {
+	cancelAccountDeletion,
+	getAccountDeletion,
+	verifyCancelDeletionUrl,
+} from "~~/services/account-deletion";
+import type { Route } from "./+types/account.cancel-deletion.$userId";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Keep your account" }];
+}
+
+/**
+ * Opened from the link in the deletion email, so it works signed out; the
+ * signed URL is what authorizes the cancellation.
+ */
+async function verify({
+	context,
+	params,
+	request,
+}: Route.LoaderArgs | Route.ActionArgs) {
+	const url = new URL(request.url);
+	if (
+		!(await verifyCancelDeletionUrl(context.cloudflare.env, params.userId, url))
+	) {
+		throw data(
+			"This link is invalid or has expired. Sign in to check your account.",
+			{ status: 403 },
+		);
+	}
+}
+
+export async function loader(args: Route.LoaderArgs) {
+	await verify(args);
+	const deletion = await getAccountDeletion(
+		args.context.cloudflare.var.Database.client,
+		args.params.userId,
+	);
+	return { scheduledFor: deletion?.scheduledFor.toISOString() ?? null };
+}
+
+export async function action(args: Route.ActionArgs) {
+	await verify(args);
+	const { var: vars } = args.context.cloudflare;
+	const { userId } = args.params;
+	if (await cancelAccountDeletion(vars.Database.client, userId)) {
+		await vars.recordAuditEvent({
+			type: "account.deletion_cancelled",
+			actorId: userId,
+			targetUserId: userId,
+		});
+	}
+	return { cancelled: true };
+}
+
+export default function CancelDeletion({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	let content: ReactNode;
+	if (actionData?.cancelled || !loaderData.scheduledFor) {
+		content = (
+			<p className="text-xl font-medium">
+				Your account is no longer scheduled for deletion.
+			</p>
+		);
+	} else {
+		content = (
+			<Form method="post" className="space-y-4">
+				<p className="text-xl font-medium">
+					Your account will be deleted on{" "}
+					{new Date(loaderData.scheduledFor).toLocaleDateString(undefined, {
+						dateStyle: "long",
+					})}
+					.
+				</p>
+				<Button type="submit">Keep my account</Button>
+			</Form>
+		);
+	}
+
+	return (
+		<LoginLayout>
+			<div className="text-center mt-6 md:mt-0 space-y-4">
+				{content}
+				<Link to="/login" className="text-sm text-blue-600 underline">
+					Sign in
+				</Link>
+			</div>
+		</LoginLayout>
+	);
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+	return (
+		<LoginLayout>
+			<div className="text-center mt-6 md:mt-0 space-y-4">
+				<p className="text-xl font-medium">
+					{isRouteErrorResponse(error) && typeof error.data === "string"
+						? error.data
+						: "Something went wrong."}
+				</p>
+				<Link to="/login" className="text-sm text-blue-600 underline">
+					Sign in
+				</Link>
+			</div>
+		</LoginLayout>
+	);
+}
@@ -0,0 +1,237 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import {
+	type AnyColumn,
+	type SQL,
+	and,
+	count,
+	desc,
+	eq,
+	gte,
+	lt,
+	or,
+	sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import { Form, Link } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { requireAdmin } from "~/loaders/admin.server";
+import { AUDIT_EVENT_TYPES, isAuditEventType } from "~~/services/audit";
+import { auditLog } from "../../api/database/schema";
+import type { Route } from "./+types/admin.audit";
+
+const PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Audit log" }];
+}
+
+function parseDate(value: string | null) {
+	if (!value) {
+		return undefined;
+	}
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Matches `value` anywhere in the column, with `%` and `_` taken literally
+ */
+function contains(column: AnyColumn, value: string) {
+	const pattern = `%${value.replace(/[\\%_]/g, "\\$&")}%`;
+	return sql`${column} LIKE ${pattern} ESCAPE '\\'`;
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	await requireAdmin(context, request);
+	const db = context.cloudflare.var.Database.client;
+	const url = new URL(request.url);
+
+	const eventParam = url.searchParams.get("event") ?? "";
+	const event = isAuditEventType(eventParam) ? eventParam : "";
+	const userQuery = url.searchParams.get("user")?.trim() ?? "";
+	const from = url.searchParams.get("from") ?? "";
+	const to = url.searchParams.get("to") ?? "";
+	const page = Math.max(1, Number(url.searchParams.get("page")) || 1);
+
+	const actor = alias(authAdminSchema.user, "actor");
+	const target = alias(authAdminSchema.user, "target");
+
+	const filters: SQL[] = [];
+	if (event) {
+		filters.push(eq(auditLog.event, event));
+	}
+	if (userQuery) {
+		const userFilter = or(
+			contains(actor.email, userQuery),
+			contains(target.email, userQuery),
+			eq(auditLog.actorId, userQuery),
+			eq(auditLog.targetUserId, userQuery),
+		);
+		if (userFilter) {
+			filters.push(userFilter);
+		}
+	}
+	const fromDate = parseDate(from);
+	if (fromDate) {
+		filters.push(gte(auditLog.createdAt, fromDate));
+	}
+	const toDate = parseDate(to);
+	if (toDate) {
+		// `to` is inclusive, so compare against the start of the next day
+		filters.push(lt(auditLog.createdAt, new Date(toDate.getTime() + DAY_MS)));
+	}
+	const where = filters.length > 0 ? and(...filters) : undefined;
+
+	const [entries, [{ total }]] = await Promise.all([
+		db
+			.select({
+				id: auditLog.id,
+				event: auditLog.event,
+				metadata: auditLog.metadata,
+				ipAddress: auditLog.ipAddress,
+				userAgent: auditLog.userAgent,
+				createdAt: auditLog.createdAt,
+				actorEmail: actor.email,
+				targetEmail: target.email,
+			})
+			.from(auditLog)
+			.leftJoin(actor, eq(auditLog.actorId, actor.id))
+			.leftJoin(target, eq(auditLog.targetUserId, target.id))
+			.where(where)
+			.orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+			.limit(PAGE_SIZE)
+			.offset((page - 1) * PAGE_SIZE),
+		db
+			.select({ total: count() })
+			.from(auditLog)
+			.leftJoin(actor, eq(auditLog.actorId, actor.id))
+			.leftJoin(target, eq(auditLog.targetUserId, target.id))
+			.where(where),
+	]);
+
+	return {
+		entries: entries.map((entry) => ({
+			...entry,
+			createdAt: entry.createdAt.toISOString(),
+		})),
+		total,
+		page,
+		pageCount: Math.max(1, Math.ceil(total / PAGE_SIZE)),
+		filters: { event, user: userQuery, from, to },
+	};
+}
+
+export default function AdminAuditPage({ loaderData }: Route.ComponentProps) {
+	const { entries, total, page, pageCount, filters } = loaderData;
+
+	const pageLink = (target: number) => {
+		const params = new URLSearchParams({ page: String(target) });
+		for (const [key, value] of Object.entries(filters)) {
+			if (value) {
+				params.set(key, value);
+			}
+		}
+		return `?${params.toString()}`;
+	};
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-center justify-between">
+				<h1 className="text-2xl font-bold">Audit log</h1>
+				<span className="text-sm text-gray-500">{total} events</span>
+			</div>
+
+			<Form method="get" className="flex flex-wrap gap-2">
+				<select
+					name="event"
+					defaultValue={filters.event}
+					className="border rounded-md px-2 h-9 text-sm"
+				>
+					<option value="">All events</option>
+					{AUDIT_EVENT_TYPES.map((type) => (
+						<option key={type} value={type}>
+							{type}
+						</option>
+					))}
+				</select>
+				<Input
+					name="user"
+					defaultValue={filters.user}
+					placeholder="User email or id"
+					className="max-w-xs"
+				/>
+				<Input
+					type="date"
+					name="from"
+					defaultValue={filters.from}
+					className="w-40"
+				/>
+				<Input
+					type="date"
+					name="to"
+					defaultValue={filters.to}
+					className="w-40"
+				/>
+				<Button type="submit" variant="outline">
+					Filter
+				</Button>
+			</Form>
+
+			<table className="w-full text-left text-sm">
+				<thead>
+					<tr className="border-b text-xs uppercase text-gray-500">
+						<th className="py-2 pr-4">Time</th>
+						<th className="py-2 pr-4">Event</th>
+						<th className="py-2 pr-4">Actor</th>
+						<th className="py-2 pr-4">Target</th>
+						<th className="py-2 pr-4">IP</th>
+						<th className="py-2">Details</th>
+					</tr>
+				</thead>
+				<tbody>
+					{entries.map((entry) => (
+						<tr key={entry.id} className="border-b align-top">
+							<td className="py-2 pr-4 whitespace-nowrap">
+								{new Date(entry.createdAt).toLocaleString()}
+							</td>
+							<td className="py-2 pr-4 font-mono text-xs">{entry.event}</td>
+							<td className="py-2 pr-4">{entry.actorEmail ?? "—"}</td>
+							<td className="py-2 pr-4">{entry.targetEmail ?? "—"}</td>
+							<td className="py-2 pr-4">{entry.ipAddress ?? "—"}</td>
+							<td className="py-2 text-xs text-gray-500">
+								{entry.metadata && (
+									<code className="block">
+										{JSON.stringify(entry.metadata)}
+									</code>
+								)}
+								{entry.userAgent && (
+									<span className="block truncate max-w-xs">
+										{entry.userAgent}
+									</span>
+								)}
+							</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+
+			{entries.length === 0 && (
+				<p className="text-sm text-gray-500">No events match your filters.</p>
+			)}
+
+			<div className="flex items-center justify-between text-sm">
+				{page > 1 ? <Link to={pageLink(page - 1)}>Previous</Link> : <span />}
+				<span>
+					Page {page} of {pageCount}
+				</span>
+				{page < pageCount ? (
+					<Link to={pageLink(page + 1)}>Next</Link>
+				) : (
+					<span />
+				)}
+			</div>
+		</div>
+	);
+}
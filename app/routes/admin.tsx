@@ -0,0 +1,19 @@
+import { Outlet } from "react-router";
+import { AdminSiteLayout } from "~/components/admin-layout";
+import { requireAdmin } from "~/loaders/admin.server";
+import type { Route } from "./+types/admin";
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { session } = await requireAdmin(context, request);
+	return {
+		user: { name: session.user.name, email: session.user.email },
+	};
+}
+
+export default function AdminRoot({ loaderData }: Route.ComponentProps) {
+	return (
+		<AdminSiteLayout user={loaderData.user}>
+			<Outlet />
+		</AdminSiteLayout>
+	);
+}
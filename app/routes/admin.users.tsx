@@ -0,0 +1,314 @@
+import { APIError } from "better-auth/api";
+import { Form, Link, data, redirect, useFetcher } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { requireAdmin } from "~/loaders/admin.server";
+import type { Route } from "./+types/admin.users";
+
+const PAGE_SIZE = 25;
+const ROLES = ["user", "admin"] as const;
+const BAN_DURATIONS = [
+	{ label: "Permanently", seconds: 0 },
+	{ label: "1 day", seconds: 60 * 60 * 24 },
+	{ label: "7 days", seconds: 60 * 60 * 24 * 7 },
+	{ label: "30 days", seconds: 60 * 60 * 24 * 30 },
+];
+
+type SearchField = "email" | "name";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Users" }];
+}
+
+export async function loader({ context, request }: Route.LoaderArgs) {
+	const { auth } = await requireAdmin(context, request);
+	const url = new URL(request.url);
+	const q = url.searchParams.get("q")?.trim() ?? "";
+	const field: SearchField =
+		url.searchParams.get("field") === "name" ? "name" : "email";
+	const page = Math.max(1, Number(url.searchParams.get("page")) || 1);
+
+	const result = await auth.api.listUsers({
+		query: {
+			searchValue: q || undefined,
+			searchField: field,
+			searchOperator: "contains",
+			limit: PAGE_SIZE,
+			offset: (page - 1) * PAGE_SIZE,
+			sortBy: "createdAt",
+			sortDirection: "desc",
+		},
+		headers: request.headers,
+	});
+
+	return {
+		users: result.users.map((user) => ({
+			id: user.id,
+			name: user.name,
+			email: user.email,
+			role: user.role ?? "user",
+			banned: user.banned ?? false,
+			banReason: user.banReason ?? null,
+			banExpires: user.banExpires ? user.banExpires.toISOString() : null,
+			createdAt: user.createdAt.toISOString(),
+		})),
+		total: result.total,
+		page,
+		pageCount: Math.max(1, Math.ceil(result.total / PAGE_SIZE)),
+		q,
+		field,
+	};
+}
+
+export async function action({ context, request }: Route.ActionArgs) {
+	const { auth } = await requireAdmin(context, request);
+	const formData = await request.formData();
+	const intent = String(formData.get("intent") ?? "");
+	const userId = String(formData.get("userId") ?? "");
+	const headers = request.headers;
+
+	if (!userId) {
+		return data({ error: "Missing user id." }, { status: 400 });
+	}
+
+	try {
+		switch (intent) {
+			case "set-role": {
+				const role = String(formData.get("role") ?? "");
+				if (!(ROLES as readonly string[]).includes(role)) {
+					return data({ error: "Unknown role." }, { status: 400 });
+				}
+				await auth.api.setRole({
+					body: { userId, role: role as (typeof ROLES)[number] },
+					headers,
+				});
+				break;
+			}
+			case "ban": {
+				const banReason = String(formData.get("banReason") ?? "").trim();
+				const banExpiresIn = Number(formData.get("banExpiresIn")) || undefined;
+				await auth.api.banUser({
+					body: { userId, banReason: banReason || undefined, banExpiresIn },
+					headers,
+				});
+				break;
+			}
+			case "unban":
+				await auth.api.unbanUser({ body: { userId }, headers });
+				break;
+			case "revoke-sessions":
+				await auth.api.revokeUserSessions({ body: { userId }, headers });
+				break;
+			case "impersonate": {
+				const { headers: sessionHeaders } = await auth.api.impersonateUser({
+					body: { userId },
+					headers,
+					returnHeaders: true,
+				});
+				return redirect("/feed", { headers: sessionHeaders });
+			}
+			default:
+				return data({ error: `Unknown intent "${intent}".` }, { status: 400 });
+		}
+	} catch (error) {
+		if (error instanceof APIError) {
+			return data(
+				{ error: error.body?.message ?? error.message },
+				{ status: error.statusCode },
+			);
+		}
+		throw error;
+	}
+
+	return { ok: true, intent };
+}
+
+type UserRowData = Awaited<ReturnType<typeof loader>>["users"][number];
+
+function UserRow({ user }: { user: UserRowData }) {
+	const fetcher = useFetcher<typeof action>();
+	const busy = fetcher.state !== "idle";
+	const error =
+		fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+
+	return (
+		<tr className="border-b align-top">
+			<td className="py-3 pr-4">
+				<div className="font-medium">{user.name}</div>
+				<div className="text-xs text-gray-500">{user.email}</div>
+			</td>
+			<td className="py-3 pr-4">
+				<fetcher.Form method="post" className="flex gap-2">
+					<input type="hidden" name="intent" value="set-role" />
+					<input type="hidden" name="userId" value={user.id} />
+					<select
+						name="role"
+						defaultValue={user.role}
+						className="border rounded-md px-2 h-8 text-sm"
+						disabled={busy}
+					>
+						{ROLES.map((role) => (
+							<option key={role} value={role}>
+								{role}
+							</option>
+						))}
+					</select>
+					<Button type="submit" size="sm" variant="outline" disabled={busy}>
+						Save
+					</Button>
+				</fetcher.Form>
+			</td>
+			<td className="py-3 pr-4 text-sm">
+				{user.banned ? (
+					<div>
+						<span className="text-red-600 font-medium">Banned</span>
+						{user.banReason && (
+							<div className="text-xs text-gray-500">{user.banReason}</div>
+						)}
+						{user.banExpires && (
+							<div className="text-xs text-gray-500">
+								until {new Date(user.banExpires).toLocaleString()}
+							</div>
+						)}
+					</div>
+				) : (
+					<span className="text-green-700">Active</span>
+				)}
+			</td>
+			<td className="py-3 pr-4 text-sm">
+				{new Date(user.createdAt).toLocaleDateString()}
+			</td>
+			<td className="py-3 space-y-2">
+				{user.banned ? (
+					<fetcher.Form method="post">
+						<input type="hidden" name="intent" value="unban" />
+						<input type="hidden" name="userId" value={user.id} />
+						<Button type="submit" size="sm" variant="outline" disabled={busy}>
+							Unban
+						</Button>
+					</fetcher.Form>
+				) : (
+					<fetcher.Form method="post" className="flex gap-2">
+						<input type="hidden" name="intent" value="ban" />
+						<input type="hidden" name="userId" value={user.id} />
+						<Input
+							name="banReason"
+							placeholder="Reason"
+							className="h-8 w-32"
+							disabled={busy}
+						/>
+						<select
+							name="banExpiresIn"
+							className="border rounded-md px-2 h-8 text-sm"
+							disabled={busy}
+						>
+							{BAN_DURATIONS.map((duration) => (
+								<option key={duration.seconds} value={duration.seconds}>
+									{duration.label}
+								</option>
+							))}
+						</select>
+						<Button
+							type="submit"
+							size="sm"
+							variant="destructive"
+							disabled={busy}
+						>
+							Ban
+						</Button>
+					</fetcher.Form>
+				)}
+				<fetcher.Form method="post">
+					<input type="hidden" name="intent" value="impersonate" />
+					<input type="hidden" name="userId" value={user.id} />
+					<Button type="submit" size="sm" variant="ghost" disabled={busy}>
+						Impersonate
+					</Button>
+				</fetcher.Form>
+				<fetcher.Form method="post">
+					<input type="hidden" name="intent" value="revoke-sessions" />
+					<input type="hidden" name="userId" value={user.id} />
+					<Button type="submit" size="sm" variant="ghost" disabled={busy}>
+						Revoke sessions
+					</Button>
+				</fetcher.Form>
+				{error && <div className="text-red-500 text-sm">{error}</div>}
+			</td>
+		</tr>
+	);
+}
+
+export default function AdminUsersPage({ loaderData }: Route.ComponentProps) {
+	const { users, total, page, pageCount, q, field } = loaderData;
+
+	const pageLink = (target: number) => {
+		const params = new URLSearchParams({ page: String(target), field });
+		if (q) {
+			params.set("q", q);
+		}
+		return `?${params.toString()}`;
+	};
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-center justify-between">
+				<h1 className="text-2xl font-bold">Users</h1>
+				<span className="text-sm text-gray-500">{total} total</span>
+			</div>
+
+			<Form method="get" className="flex gap-2">
+				<Input
+					type="search"
+					name="q"
+					defaultValue={q}
+					placeholder="Search users"
+					className="max-w-xs"
+				/>
+				<select
+					name="field"
+					defaultValue={field}
+					className="border rounded-md px-2 h-9 text-sm"
+				>
+					<option value="email">Email</option>
+					<option value="name">Name</option>
+				</select>
+				<Button type="submit" variant="outline">
+					Search
+				</Button>
+			</Form>
+
+			<table className="w-full text-left">
+				<thead>
+					<tr className="border-b text-xs uppercase text-gray-500">
+						<th className="py-2 pr-4">User</th>
+						<th className="py-2 pr-4">Role</th>
+						<th className="py-2 pr-4">Status</th>
+						<th className="py-2 pr-4">Joined</th>
+						<th className="py-2">Actions</th>
+					</tr>
+				</thead>
+				<tbody>
+					{users.map((user) => (
+						<UserRow key={user.id} user={user} />
+					))}
+				</tbody>
+			</table>
+
+			{users.length === 0 && (
+				<p className="text-sm text-gray-500">No users match your search.</p>
+			)}
+
+			<div className="flex items-center justify-between text-sm">
+				{page > 1 ? <Link to={pageLink(page - 1)}>Previous</Link> : <span />}
+				<span>
+					Page {page} of {pageCount}
+				</span>
+				{page < pageCount ? (
+					<Link to={pageLink(page + 1)}>Next</Link>
+				) : (
+					<span />
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,104 @@
+import { Link } from "react-router";
+import { cn } from "~/lib/utils";
+import { requireDevMode } from "~/loaders/dev.server";
+import { resolveEmailLocale } from "~~/emails/messages";
+import {
+	EMAIL_TEMPLATES,
+	type EmailTemplateName,
+	isEmailTemplateName,
+	renderEmail,
+} from "~~/emails/templates";
+import { getEmailBrand } from "~~/services/email";
+import type { Route } from "./+types/dev.emails";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Email previews" }];
+}
+
+/** Locales offered in the switcher; any other tag can be given in the URL */
+const PREVIEW_LOCALES = ["en", "en-GB", "de", "fr"];
+
+/**
+ * Renders every email template with its sample data, in the layout and
+ * branding the environment would send them with. `?locale=` is resolved the
+ * same way a recipient's is, so unknown tags fall back to English.
+ */
+export async function loader({ context, request }: Route.LoaderArgs) {
+	requireDevMode(context, request);
+	const url = new URL(request.url);
+	const names = Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[];
+	const requested = url.searchParams.get("template") ?? "";
+	const name = isEmailTemplateName(requested) ? requested : names[0];
+	const locale = resolveEmailLocale(
+		url.searchParams.get("locale") ?? request.headers.get("Accept-Language"),
+	);
+
+	const template = EMAIL_TEMPLATES[name];
+	// Each entry is rendered with its own sample, which TypeScript cannot
+	// correlate through the union of names
+	const email = renderEmail(name, template.sample as never, {
+		...getEmailBrand(context.cloudflare.env),
+		locale,
+	});
+	return { names, name, locale, locales: PREVIEW_LOCALES, email };
+}
+
+export default function EmailPreviews({ loaderData }: Route.ComponentProps) {
+	const { names, name, locale, locales, email } = loaderData;
+	const previewUrl = (template: string, language: string) =>
+		`?${new URLSearchParams({ template, locale: language })}`;
+
+	return (
+		<div className="flex min-h-screen">
+			<nav className="w-56 shrink-0 border-r p-4 space-y-1">
+				<h1 className="font-semibold mb-4">Email previews</h1>
+				{names.map((item) => (
+					<Link
+						key={item}
+						to={previewUrl(item, locale)}
+						className={cn(
+							"block rounded-md px-2 py-1 text-sm",
+							item === name ? "bg-gray-900 text-white" : "hover:bg-gray-100",
+						)}
+					>
+						{item}
+					</Link>
+				))}
+			</nav>
+			<main className="flex-1 p-6 space-y-4">
+				<div className="flex gap-1">
+					{locales.map((item) => (
+						<Link
+							key={item}
+							to={previewUrl(name, item)}
+							className={cn(
+								"rounded-md px-2 py-1 text-sm",
+								item === locale
+									? "bg-gray-900 text-white"
+									: "hover:bg-gray-100",
+							)}
+						>
+							{item}
+						</Link>
+					))}
+				</div>
+				<div>
+					<p className="text-xs text-gray-500">Subject</p>
+					<p className="font-medium">{email.subject}</p>
+				</div>
+				<iframe
+					title={`${name} HTML`}
+					srcDoc={email.html}
+					sandbox=""
+					className="w-full h-[640px] rounded-md border"
+				/>
+				<div>
+					<p className="text-xs text-gray-500 mb-1">Plain text</p>
+					<pre className="whitespace-pre-wrap rounded-md border bg-gray-50 p-4 text-sm">
+						{email.text}
+					</pre>
+				</div>
+			</main>
+		</div>
+	);
+}
@@ -0,0 +1,137 @@
+import { useEffect } from "react";
+import { Form, Link, useRevalidator } from "react-router";
+import { Button } from "~/components/ui/button";
+import { Input } from "~/components/ui/input";
+import { cn } from "~/lib/utils";
+import { requireDevMode } from "~/loaders/dev.server";
+import {
+	clearMailbox,
+	getMailboxMessage,
+	listMailboxMessages,
+} from "~~/services/dev-mailbox";
+import type { Route } from "./+types/dev.mailbox";
+
+const POLL_INTERVAL_MS = 5000;
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Dev mailbox" }];
+}
+
+/**
+ * Email captured by the mock email service, newest first
+ */
+export async function loader({ context, request }: Route.LoaderArgs) {
+	requireDevMode(context, request);
+	const kv = context.cloudflare.env.SESSIONS;
+	const url = new URL(request.url);
+	const to = url.searchParams.get("to") ?? "";
+	const messages = await listMailboxMessages(kv, { to: to || undefined });
+	const id = url.searchParams.get("id") ?? messages[0]?.id;
+	const selected = id ? await getMailboxMessage(kv, id) : null;
+	return { to, messages, selected };
+}
+
+export async function action({ context, request }: Route.ActionArgs) {
+	requireDevMode(context, request);
+	await clearMailbox(context.cloudflare.env.SESSIONS);
+	return { ok: true };
+}
+
+// Links in the preview open in the app rather than inside the frame
+function withTopTarget(html: string) {
+	return html.replace("<head>", '<head><base target="_top">');
+}
+
+export default function DevMailbox({ loaderData }: Route.ComponentProps) {
+	const { to, messages, selected } = loaderData;
+	const revalidator = useRevalidator();
+	const query = (params: Record<string, string>) =>
+		`?${new URLSearchParams({ ...(to ? { to } : {}), ...params })}`;
+
+	useEffect(() => {
+		const timer = setInterval(() => {
+			if (revalidator.state === "idle") {
+				revalidator.revalidate();
+			}
+		}, POLL_INTERVAL_MS);
+		return () => clearInterval(timer);
+	}, [revalidator]);
+
+	return (
+		<div className="flex min-h-screen">
+			<nav className="w-80 shrink-0 border-r p-4 space-y-3">
+				<h1 className="font-semibold">Dev mailbox</h1>
+				<Form method="get" className="flex gap-2">
+					<Input
+						name="to"
+						type="email"
+						placeholder="Filter by recipient"
+						defaultValue={to}
+					/>
+					<Button type="submit" variant="outline">
+						Filter
+					</Button>
+				</Form>
+				<Form method="post">
+					<Button type="submit" variant="ghost" size="sm">
+						Clear mailbox
+					</Button>
+				</Form>
+				{messages.length === 0 ? (
+					<p className="text-sm text-gray-500">No email yet.</p>
+				) : (
+					<ul className="space-y-1">
+						{messages.map((message) => (
+							<li key={message.id}>
+								<Link
+									to={query({ id: message.id })}
+									className={cn(
+										"block rounded-md px-2 py-1.5 text-sm",
+										message.id === selected?.id
+											? "bg-gray-900 text-white"
+											: "hover:bg-gray-100",
+									)}
+								>
+									<span className="block font-medium truncate">
+										{message.subject}
+									</span>
+									<span className="block text-xs opacity-75 truncate">
+										{message.to} ·{" "}
+										{new Date(message.createdAt).toLocaleTimeString()}
+									</span>
+								</Link>
+							</li>
+						))}
+					</ul>
+				)}
+			</nav>
+			{selected && (
+				<main className="flex-1 p-6 space-y-4">
+					<div className="flex items-start justify-between gap-4">
+						<div>
+							<p className="font-medium">{selected.subject}</p>
+							<p className="text-sm text-gray-500">
+								To {selected.to} · {selected.template} ·{" "}
+								{new Date(selected.createdAt).toLocaleString()}
+							</p>
+						</div>
+						{selected.link && (
+							<Button asChild>
+								<a href={selected.link}>Open link</a>
+							</Button>
+						)}
+					</div>
+					<iframe
+						title={selected.subject}
+						srcDoc={withTopTarget(selected.html)}
+						sandbox="allow-top-navigation-by-user-activation"
+						className="w-full h-[640px] rounded-md border"
+					/>
+					<pre className="whitespace-pre-wrap rounded-md border bg-gray-50 p-4 text-sm">
+						{selected.text}
+					</pre>
+				</main>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,40 @@
+import { Link } from "react-router";
+import { TERMS_VERSION } from "~~/services/registration";
+import { LoginLayout } from "../components/login-layout";
+import type { Route } from "./+types/privacy";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Privacy Policy" }];
+}
+
+export function loader(_: Route.LoaderArgs) {
+	return { version: TERMS_VERSION };
+}
+
+export default function PrivacyPage({ loaderData }: Route.ComponentProps) {
+	return (
+		<LoginLayout>
+			<article className="prose prose-sm">
+				<h1>Privacy Policy</h1>
+				<p className="text-sm text-gray-500">Version {loaderData.version}</p>
+				<p>
+					We store your name, email address and the content you create so we can
+					provide the service.
+				</p>
+				<p>
+					For security we record the IP address and browser of each sign-in and
+					when you accepted these policies.
+				</p>
+				<p>
+					We do not sell your data. You can ask us to export or delete it at any
+					time.
+				</p>
+				<p>
+					<Link to="/signup" className="text-d-green-pri font-medium">
+						Back to sign up
+					</Link>
+				</p>
+			</article>
+		</LoginLayout>
+	);
+}
@@ -0,0 +1,23 @@
+import { redirect } from "react-router";
+import { authFactory } from "~~/auth";
+import type { Route } from "./+types/stop-impersonating";
+
+export async function loader() {
+	return redirect("/");
+}
+
+export async function action({ context, request }: Route.ActionArgs) {
+	const auth = await authFactory(context.cloudflare.env, request);
+	const session = await auth.api.getSession({ headers: request.headers });
+
+	if (!session?.session.impersonatedBy) {
+		return redirect("/");
+	}
+
+	const { headers } = await auth.api.stopImpersonating({
+		headers: request.headers,
+		returnHeaders: true,
+	});
+
+	return redirect("/admin/users", { headers });
+}
@@ -0,0 +1,40 @@
+import { Link } from "react-router";
+import { TERMS_VERSION } from "~~/services/registration";
+import { LoginLayout } from "../components/login-layout";
+import type { Route } from "./+types/tos";
+
+export function meta(_: Route.MetaArgs) {
+	return [{ title: "Terms of Service" }];
+}
+
+export function loader(_: Route.LoaderArgs) {
+	return { version: TERMS_VERSION };
+}
+
+export default function TermsPage({ loaderData }: Route.ComponentProps) {
+	return (
+		<LoginLayout>
+			<article className="prose prose-sm">
+				<h1>Terms of Service</h1>
+				<p className="text-sm text-gray-500">Version {loaderData.version}</p>
+				<p>
+					By creating an account you agree to use this service lawfully and not
+					to interfere with its operation or with other users.
+				</p>
+				<p>
+					You are responsible for keeping access to your email account secure,
+					as sign-in links are delivered there.
+				</p>
+				<p>
+					We may update these terms. When we do, the version above changes and
+					we may ask you to accept the new version.
+				</p>
+				<p>
+					<Link to="/signup" className="text-d-green-pri font-medium">
+						Back to sign up
+					</Link>
+				</p>
+			</article>
+		</LoginLayout>
+	);
+}
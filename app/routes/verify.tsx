@@ -1,13 +1,132 @@
+import { type FormEvent, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router";
+import { emailOtp, signIn } from "~~/auth-client";
 import { LoginLayout } from "../components/login-layout";
+import { Button } from "../components/ui/button";
+import { Input } from "../components/ui/input";
+
+// Keyed by the error codes of better-auth's email OTP plugin
+const CODE_ERRORS: Record<string, string> = {
+	INVALID_OTP: "That code isn't right. Check the email and try again.",
+	OTP_EXPIRED: "That code has expired. Send a new one below.",
+	TOO_MANY_ATTEMPTS: "Too many wrong codes. Send a new one below.",
+};
 
 export default function LoginPage() {
+	const [searchParams] = useSearchParams();
+	const email = searchParams.get("email");
+
 	return (
 		<LoginLayout>
-			<div className="text-center mt-6 md:mt-0">
-				<p className="text-xl font-medium">
-					We have sent you an email to verify your login.
+			{searchParams.get("method") === "code" && email ? (
+				<CodeForm email={email} />
+			) : (
+				<div className="text-center mt-6 md:mt-0">
+					<p className="text-xl font-medium">
+						We have sent you an email to verify your login.
+					</p>
+				</div>
+			)}
+		</LoginLayout>
+	);
+}
+
+function CodeForm({ email }: { email: string }) {
+	const navigate = useNavigate();
+	const [code, setCode] = useState("");
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [resent, setResent] = useState(false);
+
+	const verify = (event: FormEvent) => {
+		event.preventDefault();
+		setSubmitting(true);
+		setError(null);
+		signIn.emailOtp(
+			{ email, otp: code },
+			{
+				onSuccess: () => {
+					navigate("/feed");
+				},
+				onError: ({ error }) => {
+					setSubmitting(false);
+					setCode("");
+					setError(
+						CODE_ERRORS[error.code] ??
+							error.message ??
+							"Could not sign you in. Please try again.",
+					);
+				},
+			},
+		);
+	};
+
+	const resend = () => {
+		setError(null);
+		setResent(false);
+		emailOtp.sendVerificationOtp(
+			{ email, type: "sign-in" },
+			{
+				onSuccess: () => {
+					setCode("");
+					setResent(true);
+				},
+				onError: ({ error }) => {
+					setError(error.message ?? "Could not send a new code.");
+				},
+			},
+		);
+	};
+
+	return (
+		<form className="space-y-4" onSubmit={verify}>
+			<div>
+				<p className="text-xl font-medium">Check your email for a code</p>
+				<p className="text-sm text-gray-500">
+					We sent a 6-digit code to {email}. It expires in 10 minutes.
 				</p>
 			</div>
-		</LoginLayout>
+
+			<Input
+				name="code"
+				placeholder="123456"
+				className="w-full text-black text-center text-2xl tracking-[0.5em]"
+				inputMode="numeric"
+				autoComplete="one-time-code"
+				pattern="[0-9]{6}"
+				maxLength={6}
+				value={code}
+				onChange={(e) => {
+					setCode(e.target.value.replace(/\D/g, ""));
+				}}
+				autoFocus
+				required
+			/>
+
+			{error && <div className="text-red-500 text-sm">{error}</div>}
+			{resent && !error && (
+				<div className="text-sm text-gray-500">A new code is on its way.</div>
+			)}
+
+			<Button
+				type="submit"
+				className="w-full rounded-xl"
+				variant="primary"
+				size={"lg"}
+				disabled={submitting || code.length !== 6}
+			>
+				Sign In
+			</Button>
+
+			<div className="text-center">
+				<button
+					type="button"
+					className="text-sm text-d-green-pri font-medium"
+					onClick={resend}
+				>
+					Send a new code
+				</button>
+			</div>
+		</form>
 	);
 }
@@ -0,0 +1,13 @@
+CREATE TABLE `posts` (
+	`id` text PRIMARY KEY NOT NULL,
+	`author_id` text NOT NULL,
+	`title` text NOT NULL,
+	`body` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`deleted_at` integer,
+	FOREIGN KEY (`author_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `posts_author_created_at_idx` ON `posts` (`author_id`,`created_at`,`id`);--> statement-breakpoint
+CREATE INDEX `posts_created_at_idx` ON `posts` (`created_at`,`id`);
\ No newline at end of file
@@ -0,0 +1,26 @@
+-- Full-text index over post titles and bodies. It is an external-content
+-- FTS5 table, so it only stores the index and reads text back from `posts`;
+-- the triggers below keep it in sync. Soft-deleted posts stay indexed and are
+-- filtered out at query time.
+CREATE VIRTUAL TABLE `posts_fts` USING fts5(
+	`title`,
+	`body`,
+	content = 'posts',
+	content_rowid = 'rowid',
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `posts_fts_after_insert` AFTER INSERT ON `posts` BEGIN
+	INSERT INTO `posts_fts` (`rowid`, `title`, `body`) VALUES (new.`rowid`, new.`title`, new.`body`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `posts_fts_after_delete` AFTER DELETE ON `posts` BEGIN
+	INSERT INTO `posts_fts` (`posts_fts`, `rowid`, `title`, `body`) VALUES ('delete', old.`rowid`, old.`title`, old.`body`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `posts_fts_after_update` AFTER UPDATE OF `title`, `body` ON `posts` BEGIN
+	INSERT INTO `posts_fts` (`posts_fts`, `rowid`, `title`, `body`) VALUES ('delete', old.`rowid`, old.`title`, old.`body`);
+	INSERT INTO `posts_fts` (`rowid`, `title`, `body`) VALUES (new.`rowid`, new.`title`, new.`body`);
+END;
+--> statement-breakpoint
+INSERT INTO `posts_fts` (`posts_fts`) VALUES ('rebuild');
@@ -0,0 +1,58 @@
+CREATE TABLE `comments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`post_id` text NOT NULL,
+	`author_id` text NOT NULL,
+	`parent_id` text,
+	`body` text NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`author_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`parent_id`) REFERENCES `comments`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `comments_post_created_at_idx` ON `comments` (`post_id`,`created_at`,`id`);--> statement-breakpoint
+CREATE INDEX `comments_parent_id_idx` ON `comments` (`parent_id`);--> statement-breakpoint
+CREATE TABLE `reactions` (
+	`post_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`reaction` text NOT NULL,
+	`created_at` integer NOT NULL,
+	PRIMARY KEY(`post_id`, `user_id`, `reaction`),
+	FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `reactions_user_id_idx` ON `reactions` (`user_id`);--> statement-breakpoint
+ALTER TABLE `posts` ADD `comment_count` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `posts` ADD `reaction_counts` text DEFAULT '{}' NOT NULL;--> statement-breakpoint
+CREATE TRIGGER `comments_after_insert_count` AFTER INSERT ON `comments` BEGIN
+	UPDATE `posts` SET `comment_count` = `comment_count` + 1 WHERE `id` = new.`post_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `comments_after_delete_count` AFTER DELETE ON `comments` BEGIN
+	UPDATE `posts` SET `comment_count` = max(`comment_count` - 1, 0) WHERE `id` = old.`post_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `reactions_after_insert_count` AFTER INSERT ON `reactions` BEGIN
+	UPDATE `posts`
+	SET `reaction_counts` = json_set(
+		`reaction_counts`,
+		'$.' || new.`reaction`,
+		coalesce(json_extract(`reaction_counts`, '$.' || new.`reaction`), 0) + 1
+	)
+	WHERE `id` = new.`post_id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `reactions_after_delete_count` AFTER DELETE ON `reactions` BEGIN
+	UPDATE `posts`
+	SET `reaction_counts` = CASE
+		WHEN coalesce(json_extract(`reaction_counts`, '$.' || old.`reaction`), 0) <= 1
+			THEN json_remove(`reaction_counts`, '$.' || old.`reaction`)
+		ELSE json_set(
+			`reaction_counts`,
+			'$.' || old.`reaction`,
+			json_extract(`reaction_counts`, '$.' || old.`reaction`) - 1
+		)
+	END
+	WHERE `id` = old.`post_id`;
+END;
@@ -0,0 +1,18 @@
+CREATE TABLE `attachments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`owner_id` text NOT NULL,
+	`post_id` text,
+	`kind` text NOT NULL,
+	`visibility` text NOT NULL,
+	`object_key` text NOT NULL,
+	`file_name` text NOT NULL,
+	`content_type` text NOT NULL,
+	`size` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`owner_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`post_id`) REFERENCES `posts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `attachments_object_key_unique` ON `attachments` (`object_key`);--> statement-breakpoint
+CREATE INDEX `attachments_owner_id_idx` ON `attachments` (`owner_id`);--> statement-breakpoint
+CREATE INDEX `attachments_post_id_idx` ON `attachments` (`post_id`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `account_deletions` (
+	`user_id` text PRIMARY KEY NOT NULL,
+	`requested_at` integer NOT NULL,
+	`scheduled_for` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `account_deletions_scheduled_for_idx` ON `account_deletions` (`scheduled_for`);--> statement-breakpoint
+CREATE TABLE `data_exports` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` text NOT NULL,
+	`format` text NOT NULL,
+	`status` text NOT NULL,
+	`object_key` text,
+	`size` integer,
+	`created_at` integer NOT NULL,
+	`completed_at` integer,
+	`expires_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `data_exports_user_created_at_idx` ON `data_exports` (`user_id`,`created_at`);--> statement-breakpoint
+CREATE INDEX `data_exports_expires_at_idx` ON `data_exports` (`expires_at`);
\ No newline at end of file
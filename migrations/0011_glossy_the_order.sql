@@ -0,0 +1,22 @@
+CREATE TABLE `email_events` (
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`email` text NOT NULL,
+	`provider_message_id` text,
+	`outbox_id` text,
+	`user_id` text,
+	`detail` text,
+	`occurred_at` integer NOT NULL,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`outbox_id`) REFERENCES `email_outbox`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `email_events_email_idx` ON `email_events` (`email`,`occurred_at`);--> statement-breakpoint
+CREATE INDEX `email_events_outbox_id_idx` ON `email_events` (`outbox_id`);--> statement-breakpoint
+CREATE TABLE `email_suppressions` (
+	`email` text PRIMARY KEY NOT NULL,
+	`reason` text NOT NULL,
+	`event_id` text,
+	`created_at` integer NOT NULL
+);
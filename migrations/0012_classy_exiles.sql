@@ -0,0 +1 @@
+ALTER TABLE `email_outbox` ADD `expires_at` integer;
\ No newline at end of file
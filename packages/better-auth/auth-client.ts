@@ -1,9 +1,9 @@
-import { magicLinkClient } from "better-auth/client/plugins";
+import { adminClient, magicLinkClient } from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 import { toast } from "sonner";
 
 export const authClient = createAuthClient({
-	plugins: [magicLinkClient()],
+	plugins: [adminClient(), magicLinkClient()],
 	fetchOptions: {
 		onError(e) {
 			if (e.error.status === 429) {
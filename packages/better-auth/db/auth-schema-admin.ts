@@ -26,6 +26,8 @@ export const session = sqliteTable("session", {
 		.notNull()
 		.references(() => user.id, { onDelete: "cascade" }),
 	impersonatedBy: text("impersonated_by"),
+	country: text("country"),
+	city: text("city"),
 });
 
 export const account = sqliteTable("account", {
@@ -58,3 +60,14 @@ export const verification = sqliteTable("verification", {
 	createdAt: integer("created_at", { mode: "timestamp" }),
 	updatedAt: integer("updated_at", { mode: "timestamp" }),
 });
+
+export const termsAcceptance = sqliteTable("terms_acceptance", {
+	id: text("id").primaryKey(),
+	userId: text("user_id")
+		.notNull()
+		.references(() => user.id, { onDelete: "cascade" }),
+	version: text("version").notNull(),
+	acceptedAt: integer("accepted_at", { mode: "timestamp" }).notNull(),
+	ipAddress: text("ip_address"),
+	userAgent: text("user_agent"),
+});
@@ -2,8 +2,11 @@ import { createMiddleware } from "hono/factory";
 import { addCloudflareContextToNodejsGlobal } from "./cloudflare";
 import * as authSchema from "./db/auth-schema";
 import * as authAdminSchema from "./db/auth-schema-admin";
-import { getCloudflareSecondaryStorage } from "./kv-secondary-storage";
-import { AuthCloudflareBindings } from "./types";
+import {
+	createKVStore,
+	getCloudflareSecondaryStorage,
+} from "./kv-secondary-storage";
+import type { AuthCloudflareBindings } from "./types";
 
 type AppType = {
 	Bindings: AuthCloudflareBindings;
@@ -28,8 +31,9 @@ const dbLoader = () => {
 export {
 	cloudflareContextMiddleware,
 	getCloudflareSecondaryStorage,
+	createKVStore,
 	authSchema,
 	authAdminSchema,
-	AuthCloudflareBindings,
 	dbLoader,
 };
+export type { AuthCloudflareBindings };
@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+	KV_MIN_EXPIRATION_TTL,
+	createKVStore,
+	getCloudflareSecondaryStorage,
+	toExpirationTtl,
+} from "./kv-secondary-storage";
+
+type StoredValue = { value: string; expirationTtl?: number };
+
+/**
+ * In-memory stand-in for a KV namespace that remembers the options each key
+ * was written with
+ */
+function createMemoryKV() {
+	const entries = new Map<string, StoredValue>();
+	const kv = {
+		get: async (key: string) => entries.get(key)?.value ?? null,
+		put: async (
+			key: string,
+			value: string,
+			options?: KVNamespacePutOptions,
+		) => {
+			entries.set(key, { value, expirationTtl: options?.expirationTtl });
+		},
+		delete: async (key: string) => {
+			entries.delete(key);
+		},
+	};
+	return { kv: kv as unknown as KVNamespace, entries };
+}
+
+let memory: ReturnType<typeof createMemoryKV>;
+
+beforeEach(() => {
+	memory = createMemoryKV();
+});
+
+describe("createKVStore", () => {
+	test("stores keys as they are without a prefix", async () => {
+		const store = createKVStore({ KV: memory.kv });
+		await store.set("session", { id: 1 });
+
+		expect([...memory.entries.keys()]).toEqual(["session"]);
+	});
+
+	test("prefixes every key", async () => {
+		const store = createKVStore({ KV: memory.kv, prefix: "app" });
+		await store.set("session", "value");
+
+		expect([...memory.entries.keys()]).toEqual(["app:session"]);
+		expect(await store.get("session")).toBe("value");
+
+		await store.delete("session");
+		expect(memory.entries.size).toBe(0);
+	});
+
+	test("nests namespaces inside the prefix", async () => {
+		const store = createKVStore({ KV: memory.kv, prefix: "app" });
+		const rateLimits = store.namespace("rate-limit").namespace("ip");
+		await rateLimits.set("203.0.113.7", 3);
+
+		expect([...memory.entries.keys()]).toEqual([
+			"app:rate-limit:ip:203.0.113.7",
+		]);
+		expect(await rateLimits.get("203.0.113.7")).toBe(3);
+		// Keys in different namespaces don't collide
+		expect(await store.get("203.0.113.7")).toBeNull();
+	});
+
+	test("namespaces an unprefixed store", async () => {
+		const store = createKVStore({ KV: memory.kv });
+		await store.namespace("cache").set("key", true);
+
+		expect([...memory.entries.keys()]).toEqual(["cache:key"]);
+	});
+
+	test("round-trips values through JSON", async () => {
+		const store = createKVStore({ KV: memory.kv });
+		const value = {
+			name: "Alice",
+			roles: ["admin", "user"],
+			nested: { count: 2, active: true, missing: null },
+		};
+		await store.set("user", value);
+
+		expect(memory.entries.get("user")?.value).toBe(JSON.stringify(value));
+		expect(await store.get("user")).toEqual(value);
+	});
+
+	test("returns null for missing keys", async () => {
+		const store = createKVStore({ KV: memory.kv });
+
+		expect(await store.get("missing")).toBeNull();
+	});
+
+	test("raises short TTLs to KV's minimum", async () => {
+		const store = createKVStore({ KV: memory.kv });
+		await store.set("short", 1, 5);
+		await store.set("long", 1, 3600);
+
+		expect(memory.entries.get("short")?.expirationTtl).toBe(
+			KV_MIN_EXPIRATION_TTL,
+		);
+		expect(memory.entries.get("long")?.expirationTtl).toBe(3600);
+	});
+
+	test("stores entries without a TTL without expiration", async () => {
+		const store = createKVStore({ KV: memory.kv });
+		await store.set("forever", 1);
+		await store.set("zero", 1, 0);
+
+		expect(memory.entries.get("forever")?.expirationTtl).toBeUndefined();
+		expect(memory.entries.get("zero")?.expirationTtl).toBeUndefined();
+	});
+});
+
+describe("toExpirationTtl", () => {
+	test("never goes below 60 seconds", () => {
+		expect(KV_MIN_EXPIRATION_TTL).toBe(60);
+		expect(toExpirationTtl(1)).toBe(60);
+		expect(toExpirationTtl(59.5)).toBe(60);
+		expect(toExpirationTtl(60)).toBe(60);
+	});
+
+	test("rounds fractional TTLs up", () => {
+		expect(toExpirationTtl(90.2)).toBe(91);
+	});
+
+	test("means no expiration for missing, zero, negative or infinite TTLs", () => {
+		expect(toExpirationTtl()).toBeUndefined();
+		expect(toExpirationTtl(null)).toBeUndefined();
+		expect(toExpirationTtl(0)).toBeUndefined();
+		expect(toExpirationTtl(-10)).toBeUndefined();
+		expect(toExpirationTtl(Number.POSITIVE_INFINITY)).toBeUndefined();
+	});
+});
+
+describe("getCloudflareSecondaryStorage", () => {
+	test("stores better-auth's string values under the prefix", async () => {
+		const storage = getCloudflareSecondaryStorage({
+			KV: memory.kv,
+			prefix: "auth",
+		});
+		await storage.set("token", '{"userId":"1"}', 30);
+
+		expect(memory.entries.get("auth:token")).toEqual({
+			value: JSON.stringify('{"userId":"1"}'),
+			expirationTtl: 60,
+		});
+		expect(await storage.get("token")).toBe('{"userId":"1"}');
+
+		await storage.delete("token");
+		expect(await storage.get("token")).toBeNull();
+	});
+});
@@ -1,22 +1,91 @@
 import type { SecondaryStorage } from "better-auth";
 
-export function getCloudflareSecondaryStorage(env: {
+/**
+ * Cloudflare KV rejects `expirationTtl` values below 60 seconds.
+ */
+export const KV_MIN_EXPIRATION_TTL = 60;
+
+const KEY_SEPARATOR = ":";
+
+export type KVStoreOptions = {
 	KV: KVNamespace;
-}): SecondaryStorage {
+	/**
+	 * Prepended to every key (joined with `:`) so several apps or features can
+	 * share one KV namespace without their keys colliding.
+	 */
+	prefix?: string;
+};
+
+export type KVStore<T> = {
+	get: (key: string) => Promise<T | null>;
+	/**
+	 * @param ttl time to live in seconds. Values below KV's minimum are raised
+	 * to 60 seconds; `undefined` or `0` stores the entry without expiration.
+	 */
+	set: (key: string, value: T, ttl?: number) => Promise<void>;
+	delete: (key: string) => Promise<void>;
+	/**
+	 * Returns a store whose keys live below `name` inside this store's prefix
+	 */
+	namespace: <U = T>(name: string) => KVStore<U>;
+};
+
+/**
+ * Converts a TTL in seconds into a value KV accepts for `expirationTtl`
+ *
+ * @returns `undefined` when the entry should not expire
+ */
+export function toExpirationTtl(ttl?: number | null): number | undefined {
+	if (ttl === undefined || ttl === null || !Number.isFinite(ttl) || ttl <= 0) {
+		return undefined;
+	}
+	return Math.max(KV_MIN_EXPIRATION_TTL, Math.ceil(ttl));
+}
+
+function joinKey(prefix: string | undefined, key: string) {
+	return prefix ? `${prefix}${KEY_SEPARATOR}${key}` : key;
+}
+
+/**
+ * Creates a JSON-serialising, optionally prefixed view onto a KV namespace
+ */
+export function createKVStore<T = unknown>(
+	options: KVStoreOptions,
+): KVStore<T> {
+	const { KV, prefix } = options;
+
 	return {
-		get: async (key: string) => {
-			const value = await env.KV.get(key);
+		get: async (key) => {
+			const value = await KV.get(joinKey(prefix, key));
 			if (value === null) {
 				return null;
 			}
-			return JSON.parse(value);
+			return JSON.parse(value) as T;
 		},
-		// biome-ignore lint/suspicious/noExplicitAny: interface requires any type
-		set: async (key: string, value: any) => {
-			await env.KV.put(key, JSON.stringify(value));
+		set: async (key, value, ttl) => {
+			const expirationTtl = toExpirationTtl(ttl);
+			await KV.put(
+				joinKey(prefix, key),
+				JSON.stringify(value),
+				expirationTtl ? { expirationTtl } : undefined,
+			);
 		},
-		delete: async (key: string) => {
-			await env.KV.delete(key);
+		delete: async (key) => {
+			await KV.delete(joinKey(prefix, key));
 		},
+		namespace: <U = T>(name: string) =>
+			createKVStore<U>({ KV, prefix: joinKey(prefix, name) }),
+	};
+}
+
+export function getCloudflareSecondaryStorage(
+	options: KVStoreOptions,
+): SecondaryStorage {
+	const store = createKVStore<string>(options);
+	return {
+		get: (key: string) => store.get(key),
+		set: (key: string, value: string, ttl?: number) =>
+			store.set(key, value, ttl),
+		delete: (key: string) => store.delete(key),
 	};
 }
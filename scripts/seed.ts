@@ -0,0 +1,36 @@
+/// <reference path="../worker-configuration.d.ts" />
+/**
+ * Seeds the local D1 database used by `wrangler dev`.
+ *
+ * Usage: bun run db:seed [set...]   (defaults to "admin")
+ */
+import { drizzle } from "drizzle-orm/d1";
+import { getPlatformProxy } from "wrangler";
+import {
+	SEED_SET_NAMES,
+	isSeedSetName,
+	runSeeds,
+	seedConfigFromEnv,
+} from "../api/database/seed";
+
+const requested = process.argv.slice(2);
+const sets = requested.length > 0 ? requested : ["admin"];
+const unknownSets = sets.filter((set) => !isSeedSetName(set));
+
+if (unknownSets.length > 0) {
+	console.error(`Unknown seed sets: ${unknownSets.join(", ")}`);
+	console.error(`Available sets: ${SEED_SET_NAMES.join(", ")}`);
+	process.exit(1);
+}
+
+const { env, dispose } = await getPlatformProxy<CloudflareBindings>();
+try {
+	const report = await runSeeds(
+		drizzle(env.DB),
+		seedConfigFromEnv(env),
+		sets.filter(isSeedSetName),
+	);
+	console.log(JSON.stringify(report, null, 2));
+} finally {
+	await dispose();
+}
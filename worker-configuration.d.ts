@@ -1,5 +1,5 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types --env-interface CloudflareBindings` (hash: 482bfa3b103e8516cfc58b2c6a4a0a65)
+// Generated by Wrangler by running `wrangler types --env-interface CloudflareBindings` (hash: fcf4d09b574c7ae3075eadfae64cc36c)
 // Runtime types generated with workerd@1.20250525.0 2025-02-24 nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
@@ -8,10 +8,31 @@ declare namespace Cloudflare {
 		FROM_EMAIL: "noreply@example.com";
 		FROM_NAME: "React Router Boilerplate";
 		SUPPORT_EMAIL: "support@example.com";
-		DEV_MODE: "true";
+		EMAIL_PROVIDERS: "resend";
+		SEED_ADMIN_EMAIL: "admin@example.com";
+		SEED_ADMIN_NAME: "Admin";
+		SEED_LOAD_TEST_USERS: "100";
+		DEV_MODE: string;
 		BETTER_AUTH_SECRET: string;
+		UPLOAD_SIGNING_SECRET: string;
 		RESEND_API_KEY: string;
+		RESEND_WEBHOOK_SECRET: string;
+		POSTMARK_SERVER_TOKEN: string;
+		SENDGRID_API_KEY: string;
+		MAILGUN_API_KEY: string;
+		MAILGUN_DOMAIN: string;
+		POSTMARK_API_URL: string;
+		SENDGRID_API_URL: string;
+		MAILGUN_API_URL: string;
+		GOOGLE_CLIENT_ID: string;
+		GOOGLE_CLIENT_SECRET: string;
+		GITHUB_CLIENT_ID: string;
+		GITHUB_CLIENT_SECRET: string;
+		FEED_HUB: DurableObjectNamespace<import("./workers/app").FeedHub>;
+		UPLOADS: R2Bucket;
 		DB: D1Database;
+		EMAIL_QUEUE: Queue;
+		IMAGES: ImagesBinding;
 	}
 }
 interface CloudflareBindings extends Cloudflare.Env {}
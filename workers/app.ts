@@ -1,10 +1,65 @@
 /// <reference path="../worker-configuration.d.ts" />
+import { drizzle } from "drizzle-orm/d1";
 import { Hono } from "hono";
 import { cloudflareContextMiddleware } from "packages/better-auth";
 import { type AppLoadContext, createRequestHandler } from "react-router";
 import { authFactory } from "~~/auth";
-import { D1DbMiddleware } from "./middleware";
+import { SEED_SET_NAMES, isSeedSetName } from "../api/database/seed";
+import { FEED_USER_HEADER } from "./feed-hub";
+import {
+	DEFAULT_IMAGE_QUALITY,
+	parseImageOptions,
+	resolveImageFormat,
+} from "./images";
+import {
+	D1DbMiddleware,
+	DevModeMiddleware,
+	DevOrAdminMiddleware,
+	SessionMiddleware,
+} from "./middleware";
+import { purgeDueAccountDeletions } from "./services/account-deletion";
+import {
+	type Attachment,
+	UploadError,
+	attachmentCacheControl,
+	decodeFileName,
+	openAttachment,
+	serializeAttachment,
+	storeUpload,
+} from "./services/attachments";
+import {
+	openDataExport,
+	purgeExpiredDataExports,
+} from "./services/data-export";
+import { getLatestMailboxMessage } from "./services/dev-mailbox";
+import {
+	EMAIL_DEAD_LETTER_QUEUE,
+	type EmailQueueMessage,
+	processEmailDeadLetters,
+	processEmailQueue,
+	purgeEmailOutbox,
+} from "./services/email-outbox";
+import { createEmailProvider, usesMockEmail } from "./services/email-providers";
+import {
+	parseResendEvent,
+	recordResendEvent,
+	verifySvixSignature,
+} from "./services/email-webhooks";
+import { getFeedHub } from "./services/feed-events";
+import {
+	decodePostCursor,
+	listPostsPage,
+	parsePageSize,
+	serializePosts,
+} from "./services/posts";
+import { searchPosts } from "./services/search";
 import type { AppType } from "./types";
+import {
+	FILE_NAME_HEADER,
+	UPLOAD_RULES,
+	isAttachmentKind,
+	isImageType,
+} from "./uploads";
 
 declare module "react-router" {
 	export interface AppLoadContext {
@@ -31,9 +86,289 @@ app.get("/api/health", (c) => {
 	return c.json({ status: "ok" });
 });
 
-app.get("/api/seed", async (c) => {
-	await c.var.Database.seed();
-	return c.json({ status: "ok" });
+app.post("/api/seed", DevOrAdminMiddleware, async (c) => {
+	const body = await c.req
+		.json<{ sets?: unknown }>()
+		.catch(() => ({}) as { sets?: unknown });
+	const sets = Array.isArray(body.sets) ? body.sets : ["admin"];
+	const unknownSets = sets.filter((set) => !isSeedSetName(set));
+	if (unknownSets.length > 0) {
+		return c.json(
+			{
+				error: `Unknown seed sets: ${unknownSets.join(", ")}`,
+				available: SEED_SET_NAMES,
+			},
+			400,
+		);
+	}
+	const report = await c.var.Database.seed(sets.filter(isSeedSetName));
+	return c.json({ status: "ok", report });
+});
+
+// Lists the signed-in user's own posts, like the feed
+app.get("/api/posts", SessionMiddleware, async (c) => {
+	const cursorParam = c.req.query("cursor") ?? null;
+	const cursor = decodePostCursor(cursorParam);
+	if (cursorParam && !cursor) {
+		return c.json({ error: "Invalid cursor" }, 400);
+	}
+	const page = await listPostsPage(c.var.Database.client, {
+		authorId: c.var.session.user.id,
+		cursor,
+		limit: parsePageSize(c.req.query("limit") ?? null),
+	});
+	return c.json({
+		posts: await serializePosts(
+			c.env,
+			c.var.Database.client,
+			c.var.session.user,
+			page.posts,
+		),
+		nextCursor: page.nextCursor,
+	});
+});
+
+app.get("/api/search", SessionMiddleware, async (c) => {
+	const q = c.req.query("q")?.trim() ?? "";
+	const results = await searchPosts(c.var.Database.client, q, {
+		limit: parsePageSize(c.req.query("limit") ?? null),
+	});
+	return c.json({ q, results });
+});
+
+// The file is the raw request body, streamed to R2 as it arrives, with its
+// name in the `FILE_NAME_HEADER`. The declared length is checked against the
+// limit for the kind before the body is read.
+app.post("/api/uploads", SessionMiddleware, async (c) => {
+	const kind = c.req.query("kind");
+	if (!isAttachmentKind(kind)) {
+		return c.json({ error: "Unknown upload kind" }, 400);
+	}
+	const length = Number(c.req.header("Content-Length"));
+	if (!Number.isInteger(length) || length < 0) {
+		return c.json({ error: "Content-Length is required" }, 411);
+	}
+	if (length > UPLOAD_RULES[kind].maxBytes) {
+		return c.json({ error: "The file is too large" }, 413);
+	}
+	const body = c.req.raw.body;
+	if (length === 0 || !body) {
+		return c.json({ error: "The file is empty" }, 400);
+	}
+
+	let attachment: Attachment;
+	try {
+		attachment = await storeUpload(
+			c.env,
+			c.var.Database.client,
+			c.var.session.user.id,
+			kind,
+			{
+				fileName: decodeFileName(c.req.header(FILE_NAME_HEADER)),
+				contentType: c.req.header("Content-Type") ?? "",
+				size: length,
+				body,
+			},
+		);
+	} catch (error) {
+		if (error instanceof UploadError) {
+			return c.json({ error: error.message }, error.status);
+		}
+		throw error;
+	}
+
+	const serialized = await serializeAttachment(c.env, attachment);
+	if (kind === "avatar") {
+		// Goes through better-auth so the cached session sees the new image
+		const auth = await authFactory(c.env, c.req.raw);
+		await auth.api.updateUser({
+			body: { image: serialized.url },
+			headers: c.req.raw.headers,
+		});
+	}
+	return c.json({ attachment: serialized }, 201);
+});
+
+app.get("/api/files/:id", async (c) => {
+	const opened = await openAttachment(
+		c.env,
+		c.var.Database.client,
+		c.req.param("id"),
+		c.req.query(),
+	);
+	if (!opened.ok) {
+		return c.json({ error: opened.error }, opened.status);
+	}
+	const { attachment, object } = opened;
+
+	const headers = new Headers();
+	object.writeHttpMetadata(headers);
+	headers.set("ETag", object.httpEtag);
+	headers.set("Content-Length", String(object.size));
+	headers.set("X-Content-Type-Options", "nosniff");
+	headers.set(
+		"Content-Disposition",
+		`${isImageType(attachment.contentType) ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+	);
+	headers.set(
+		"Cache-Control",
+		attachmentCacheControl(attachment, c.req.query("expires")),
+	);
+	return new Response(object.body, { headers });
+});
+
+app.get("/api/exports/:id", async (c) => {
+	const opened = await openDataExport(
+		c.env,
+		c.var.Database.client,
+		c.req.param("id"),
+		c.req.query(),
+	);
+	if (!opened) {
+		return c.json(
+			{ error: "This download link is invalid or has expired" },
+			404,
+		);
+	}
+	const { dataExport, object } = opened;
+	const date = (dataExport.completedAt ?? dataExport.createdAt)
+		.toISOString()
+		.slice(0, 10);
+
+	const headers = new Headers();
+	object.writeHttpMetadata(headers);
+	headers.set("Content-Length", String(object.size));
+	headers.set("X-Content-Type-Options", "nosniff");
+	headers.set(
+		"Content-Disposition",
+		`attachment; filename="data-export-${date}.${dataExport.format}"`,
+	);
+	headers.set("Cache-Control", "private, no-store");
+	return new Response(object.body, { headers });
+});
+
+// Resized and re-encoded variants of uploaded images. A URL always maps to
+// the same output for a given Accept header, so variants are cached as
+// long as their source.
+app.get("/img/:options/:id", async (c) => {
+	const options = parseImageOptions(c.req.param("options"));
+	if (!options) {
+		return c.json({ error: "Invalid image options" }, 400);
+	}
+	const opened = await openAttachment(
+		c.env,
+		c.var.Database.client,
+		c.req.param("id"),
+		c.req.query(),
+	);
+	if (!opened.ok) {
+		return c.json({ error: opened.error }, opened.status);
+	}
+	const { attachment, object } = opened;
+	if (!isImageType(attachment.contentType)) {
+		return c.json({ error: "Only images can be transformed" }, 415);
+	}
+
+	const format = resolveImageFormat(
+		options.format,
+		c.req.header("Accept"),
+		attachment.contentType,
+	);
+	let result: ImageTransformationResult;
+	try {
+		result = await c.env.IMAGES.input(object.body)
+			.transform({
+				width: options.width,
+				height: options.height,
+				fit: options.fit ?? "scale-down",
+			})
+			.output({
+				format,
+				quality: options.quality ?? DEFAULT_IMAGE_QUALITY,
+			});
+	} catch (error) {
+		// Serve the original rather than a broken image, e.g. in local dev
+		// without Cloudflare credentials for the Images API
+		console.error("Failed to transform image:", attachment.id, error);
+		const url = new URL(c.req.url);
+		return c.redirect(`/api/files/${attachment.id}${url.search}`);
+	}
+
+	const headers = new Headers({
+		"Content-Type": result.contentType(),
+		"Cache-Control": attachmentCacheControl(attachment, c.req.query("expires")),
+		"X-Content-Type-Options": "nosniff",
+	});
+	if (options.format === "auto" || !options.format) {
+		headers.set("Vary", "Accept");
+	}
+	return new Response(result.image(), { headers });
+});
+
+// Lets end-to-end tests poll for the email a flow sends, e.g. the magic link
+// after signing in: /api/dev/mailbox/latest?email=…&template=magic-link
+app.get("/api/dev/mailbox/latest", DevModeMiddleware, async (c) => {
+	// With a provider configured, email really goes out and the mailbox only
+	// holds stale messages
+	if (!usesMockEmail(c.env)) {
+		return c.json(
+			{ error: "Email is sent through a provider, not the dev mailbox" },
+			409,
+		);
+	}
+	const email = c.req.query("email");
+	if (!email) {
+		return c.json({ error: "email is required" }, 400);
+	}
+	const message = await getLatestMailboxMessage(
+		c.env.SESSIONS,
+		email,
+		c.req.query("template") || "magic-link",
+	);
+	if (!message) {
+		return c.json({ error: "No matching email" }, 404);
+	}
+	return c.json({
+		id: message.id,
+		to: message.to,
+		template: message.template,
+		subject: message.subject,
+		link: message.link,
+		createdAt: message.createdAt,
+	});
+});
+
+// Delivery, bounce and complaint events from Resend, signed with Svix
+app.post("/api/webhooks/resend", async (c) => {
+	const body = await c.req.text();
+	const verified = await verifySvixSignature(
+		c.env.RESEND_WEBHOOK_SECRET,
+		c.req.raw.headers,
+		body,
+	);
+	if (!verified) {
+		return c.json({ error: "Invalid signature" }, 401);
+	}
+	const event = parseResendEvent(body);
+	if (!event) {
+		return c.json({ error: "Invalid event" }, 400);
+	}
+	const recorded = await recordResendEvent(
+		c.var.Database.client,
+		c.req.header("svix-id") ?? crypto.randomUUID(),
+		event,
+	);
+	return c.json({ recorded });
+});
+
+// Live feed updates; the hub trusts the user id set here
+app.get("/api/feed/socket", SessionMiddleware, async (c) => {
+	if (c.req.header("Upgrade") !== "websocket") {
+		return c.json({ error: "Expected a WebSocket upgrade" }, 426);
+	}
+	const headers = new Headers(c.req.raw.headers);
+	headers.set(FEED_USER_HEADER, c.var.session.user.id);
+	return getFeedHub(c.env).fetch(new Request(c.req.raw, { headers }));
 });
 
 // Authentication routes
@@ -52,6 +387,32 @@ app.use(async (c) => {
 	return requestHandler(c.req.raw, reactRouterContext);
 });
 
+export { FeedHub } from "./feed-hub";
+
 export default {
 	fetch: app.fetch,
-} satisfies ExportedHandler<CloudflareEnvironment>;
+	// Hourly cleanup, see `triggers` in wrangler.jsonc
+	scheduled(_controller, env, ctx) {
+		const db = drizzle(env.DB);
+		ctx.waitUntil(
+			Promise.all([
+				purgeDueAccountDeletions(env, db),
+				purgeExpiredDataExports(env, db),
+				purgeEmailOutbox(db),
+			]),
+		);
+	},
+	async queue(batch, env) {
+		if (batch.queue === EMAIL_DEAD_LETTER_QUEUE) {
+			await processEmailDeadLetters(batch, env);
+			return;
+		}
+		const provider = createEmailProvider(env);
+		if (!provider) {
+			console.error("No email provider is configured for the email queue");
+			batch.retryAll();
+			return;
+		}
+		await processEmailQueue(batch, env, provider);
+	},
+} satisfies ExportedHandler<CloudflareEnvironment, EmailQueueMessage>;
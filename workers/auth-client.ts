@@ -1,9 +1,13 @@
-import { magicLinkClient } from "better-auth/client/plugins";
+import {
+	adminClient,
+	emailOTPClient,
+	magicLinkClient,
+} from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
 import { toast } from "sonner";
 
 export const authClient = createAuthClient({
-	plugins: [magicLinkClient()],
+	plugins: [adminClient(), magicLinkClient(), emailOTPClient()],
 	fetchOptions: {
 		onError(e) {
 			if (e.error.status === 429) {
@@ -13,4 +17,4 @@ export const authClient = createAuthClient({
 	},
 });
 
-export const { signUp, signIn, signOut, useSession } = authClient;
+export const { signUp, signIn, signOut, useSession, emailOtp } = authClient;
@@ -4,11 +4,23 @@ import {
 } from "@portcityai/better-auth";
 import { betterAuth } from "better-auth";
 import { drizzleAdapter } from "better-auth/adapters/drizzle";
-import { magicLink } from "better-auth/plugins";
+import { APIError } from "better-auth/api";
+import { admin, emailOTP, magicLink } from "better-auth/plugins";
 import { drizzle } from "drizzle-orm/d1";
-import { MockEmailService, ResendEmailService } from "./services/email";
+import { createAuditRecorder, getClientIp } from "./services/audit";
+import { createAuditHooks } from "./services/audit-hooks";
+import type { EmailResult } from "./services/email";
+import { createEmailService } from "./services/email-providers";
+import { getRequestLocation, recordSessionActivity } from "./services/sessions";
+import { SOCIAL_PROVIDER_IDS, getSocialProviders } from "./social-providers";
 import type { AppType } from "./types";
 
+/** How long a sign-in link or code can be used for, in seconds */
+const SIGN_IN_EXPIRES_IN = 10 * 60;
+
+/** Wrong guesses allowed before a sign-in code stops working */
+const SIGN_IN_CODE_ATTEMPTS = 5;
+
 export async function authFactory(env: AppType["Bindings"], request: Request) {
 	const baseUrl = request.url
 		? new URL(request.url).origin
@@ -18,11 +30,32 @@ export async function authFactory(env: AppType["Bindings"], request: Request) {
 		throw new Error("SESSIONS is not defined");
 	}
 
-	const emailService = env.RESEND_API_KEY
-		? new ResendEmailService(env)
-		: new MockEmailService();
+	const emailService = createEmailService(env);
+	// Emails are written in the language the browser asked for
+	const locale = request.headers.get("Accept-Language");
+
+	// Shown to the user as is, since a different address is the only fix
+	const refuseSuppressed = (result: EmailResult) => {
+		if (result.suppressed) {
+			throw new APIError("BAD_REQUEST", {
+				message: result.error,
+				code: "EMAIL_SUPPRESSED",
+			});
+		}
+	};
+	// Sends that fail are queued for retries; only an email that could not
+	// even be queued fails the request, instead of leaving the user waiting
+	// for nothing
+	const ensureSent = (result: EmailResult, kind: string) => {
+		refuseSuppressed(result);
+		if (!result.success) {
+			console.error(`Failed to send ${kind} email:`, result.error);
+			throw new Error("Failed to send the email. Please try again.");
+		}
+	};
 
 	const db = drizzle(env?.DB);
+	const recordAuditEvent = createAuditRecorder(db, request);
 	const auth = betterAuth({
 		database: drizzleAdapter(db, {
 			schema: authAdminSchema,
@@ -30,23 +63,113 @@ export async function authFactory(env: AppType["Bindings"], request: Request) {
 		}),
 
 		secondaryStorage: getCloudflareSecondaryStorage({ KV: env?.SESSIONS }),
+		session: {
+			// KV serves lookups; D1 keeps a queryable copy for the sessions page.
+			// Revoking a session deletes both.
+			storeSessionInDatabase: true,
+			// Refreshing also bumps `updatedAt`, which is shown as last active
+			updateAge: 60 * 60,
+			additionalFields: {
+				country: { type: "string", required: false, input: false },
+				city: { type: "string", required: false, input: false },
+			},
+		},
+		databaseHooks: {
+			user: {
+				create: {
+					// Sign-up has already succeeded, so a failed send is only logged
+					after: async (user) => {
+						const result = await emailService.sendWelcome({
+							email: user.email,
+							locale,
+							name: user.name,
+							url: `${baseUrl}/feed`,
+						});
+						if (!result.success) {
+							console.error("Failed to send welcome email:", result.error);
+						}
+					},
+				},
+			},
+			session: {
+				create: {
+					before: async (session) => ({
+						data: { ...session, ...getRequestLocation(request) },
+					}),
+				},
+				update: {
+					// A `before` hook's data replaces the update rather than adding
+					// to it, so the fields better-auth changes (such as `expiresAt`
+					// on refresh) are left alone and these are written afterwards
+					after: async (session) => {
+						await recordSessionActivity(db, session.token, request);
+					},
+				},
+			},
+		},
 		emailAndPassword: { enabled: false },
 		baseURL: baseUrl,
 		secret: env?.BETTER_AUTH_SECRET,
-		socialProviders: {},
+		socialProviders: getSocialProviders(env),
+		account: {
+			accountLinking: {
+				enabled: true,
+				trustedProviders: [...SOCIAL_PROVIDER_IDS],
+			},
+		},
+		user: {
+			changeEmail: {
+				enabled: true,
+				async sendChangeEmailVerification({ user, newEmail, url }) {
+					ensureSent(
+						await emailService.sendEmailChangeConfirmation({
+							email: user.email,
+							locale,
+							newEmail,
+							url,
+						}),
+						"email change",
+					);
+				},
+			},
+		},
+		// Sent to the new address once a change has been approved from the old one
+		emailVerification: {
+			// Also refreshes the cached session, which would otherwise keep
+			// showing the address as unverified
+			autoSignInAfterVerification: true,
+			async sendVerificationEmail({ user, url }) {
+				ensureSent(
+					await emailService.sendEmailVerification({
+						email: user.email,
+						locale,
+						url,
+					}),
+					"verification",
+				);
+			},
+		},
+		hooks: createAuditHooks(recordAuditEvent),
 		plugins: [
+			admin(),
 			magicLink({
+				expiresIn: SIGN_IN_EXPIRES_IN,
 				async sendMagicLink(data) {
+					await recordAuditEvent({
+						type: "magic_link.requested",
+						metadata: { email: data.email },
+					});
+
 					const result = await emailService.sendMagicLink({
 						email: data.email,
+						locale,
 						magicLink: data.url,
-						ipAddress:
-							request.headers.get("CF-Connecting-IP") ||
-							request.headers.get("X-Forwarded-For") ||
-							"unknown",
+						expiresInMinutes: SIGN_IN_EXPIRES_IN / 60,
+						ipAddress: getClientIp(request) || "unknown",
 						userAgent: request.headers.get("User-Agent") || undefined,
 					});
 
+					refuseSuppressed(result);
 					if (!result.success) {
 						console.error("Failed to send magic link email:", result.error);
 						throw new Error(
@@ -54,10 +177,47 @@ export async function authFactory(env: AppType["Bindings"], request: Request) {
 						);
 					}
 
-					console.log("Magic link email sent successfully:", {
-						email: data.email,
-						messageId: result.messageId,
+					console.log(
+						result.queued
+							? "Magic link email queued for retry:"
+							: "Magic link email sent successfully:",
+						{
+							email: data.email,
+							messageId: result.messageId,
+						},
+					);
+				},
+			}),
+			// Signs in with a code typed in on `/verify`, for when opening a link
+			// on the same device isn't practical
+			emailOTP({
+				otpLength: 6,
+				expiresIn: SIGN_IN_EXPIRES_IN,
+				allowedAttempts: SIGN_IN_CODE_ATTEMPTS,
+				async sendVerificationOTP({ email, otp, type }) {
+					// Email verification and password resets use links
+					if (type !== "sign-in") {
+						throw new APIError("BAD_REQUEST", {
+							message: "Only sign-in codes are supported",
+						});
+					}
+
+					await recordAuditEvent({
+						type: "sign_in_code.requested",
+						metadata: { email },
 					});
+
+					ensureSent(
+						await emailService.sendSignInCode({
+							email,
+							locale,
+							code: otp,
+							expiresInMinutes: SIGN_IN_EXPIRES_IN / 60,
+							ipAddress: getClientIp(request) || "unknown",
+							userAgent: request.headers.get("User-Agent") || undefined,
+						}),
+						"sign-in code",
+					);
 				},
 			}),
 		],
@@ -0,0 +1,18 @@
+import type { AppType } from "./types";
+
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/**
+ * Whether development tools are open for this request: `DEV_MODE=true`,
+ * which only `.dev.vars` sets, and a request to a local dev server. A
+ * deployment that picks up the flag by mistake still keeps them closed.
+ */
+export function isLocalDevMode(
+	env: Pick<AppType["Bindings"], "DEV_MODE">,
+	request: Request,
+) {
+	return (
+		env.DEV_MODE === "true" &&
+		LOCAL_HOSTNAMES.has(new URL(request.url).hostname)
+	);
+}
@@ -0,0 +1,71 @@
+/**
+ * HTML that is safe to insert as-is. Only the `html` tag and `raw` create
+ * it, so anything else interpolated into an email is escaped.
+ */
+export class SafeHtml {
+	constructor(readonly value: string) {}
+
+	toString() {
+		return this.value;
+	}
+}
+
+const ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&#39;",
+};
+
+export function escapeHtml(value: string) {
+	return value.replace(/[&<>"']/g, (char) => ESCAPES[char]);
+}
+
+/**
+ * Marks trusted markup, e.g. a fixed style string, as safe
+ */
+export function raw(value: string) {
+	return new SafeHtml(value);
+}
+
+type HtmlValue = SafeHtml | string | number | false | null | undefined;
+
+function render(value: HtmlValue | HtmlValue[]): string {
+	if (Array.isArray(value)) {
+		return value.map(render).join("");
+	}
+	if (value instanceof SafeHtml) {
+		return value.value;
+	}
+	if (value === false || value === null || value === undefined) {
+		return "";
+	}
+	return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is
+ * `SafeHtml`. Arrays are joined and `false`, `null` and `undefined` render
+ * nothing, so conditionals and lists can be written inline.
+ */
+export function html(
+	strings: TemplateStringsArray,
+	...values: (HtmlValue | HtmlValue[])[]
+) {
+	return new SafeHtml(
+		strings.reduce(
+			(result, string, index) =>
+				result + string + (index < values.length ? render(values[index]) : ""),
+			"",
+		),
+	);
+}
+
+/**
+ * Only lets web and mail links into `href`, so a crafted value cannot become
+ * a `javascript:` URL
+ */
+export function safeUrl(url: string) {
+	return /^(https?:|mailto:|\/)/i.test(url) ? url : "#";
+}
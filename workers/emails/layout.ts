@@ -0,0 +1,145 @@
+import { type SafeHtml, html, safeUrl } from "./html";
+import { getEmailMessages } from "./messages";
+
+/**
+ * Sender details shared by every email, and the recipient's locale
+ */
+export type EmailBrand = {
+	appName: string;
+	logoUrl?: string;
+	supportEmail: string;
+	/** Language tag the email is written and formatted in */
+	locale: string;
+};
+
+/**
+ * A piece of an email body. Templates describe their content as blocks and
+ * the layout renders each block to both HTML and plain text.
+ */
+export type EmailBlock =
+	| { type: "paragraph"; text: string }
+	| { type: "button"; label: string; url: string }
+	| { type: "code"; code: string }
+	| { type: "note"; text: string }
+	| { type: "details"; title: string; rows: [label: string, value: string][] }
+	| { type: "list"; items: string[] };
+
+export type EmailContent = {
+	subject: string;
+	/** Preview text shown after the subject by most mail clients */
+	preheader?: string;
+	blocks: EmailBlock[];
+};
+
+export type RenderedEmail = {
+	subject: string;
+	html: string;
+	text: string;
+};
+
+const COLORS = {
+	primary: "#2563eb",
+	text: "#333",
+	muted: "#666",
+	faint: "#999",
+	border: "#eee",
+};
+
+function renderBlockHtml(block: EmailBlock): SafeHtml {
+	switch (block.type) {
+		case "paragraph":
+			return html`<p>${block.text}</p>`;
+		case "note":
+			return html`<p style="font-size: 14px; color: ${COLORS.muted};">${block.text}</p>`;
+		case "button":
+			return html`<div style="text-align: center; margin: 30px 0;">
+    <a href="${safeUrl(block.url)}" style="background-color: ${COLORS.primary}; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 500;">${block.label}</a>
+  </div>`;
+		case "code":
+			return html`<div style="text-align: center; margin: 30px 0;">
+    <span style="font-family: 'SFMono-Regular', Menlo, Consolas, monospace; font-size: 32px; font-weight: 600; letter-spacing: 8px; padding: 12px 20px; background-color: #f5f5f5; border-radius: 6px; display: inline-block;">${block.code}</span>
+  </div>`;
+		case "details":
+			return html`<p style="font-size: 14px; color: ${COLORS.muted}; margin-top: 30px;">
+    <strong>${block.title}:</strong><br>
+    ${block.rows.map(([label, value]) => html`${label}: ${value}<br>`)}
+  </p>`;
+		case "list":
+			return html`<ul style="padding-left: 20px;">
+    ${block.items.map((item) => html`<li style="margin-bottom: 8px;">${item}</li>`)}
+  </ul>`;
+	}
+}
+
+function renderBlockText(block: EmailBlock) {
+	switch (block.type) {
+		case "paragraph":
+		case "note":
+			return block.text;
+		case "button":
+			return `${block.label}: ${block.url}`;
+		case "code":
+			return block.code;
+		case "details":
+			return [
+				`${block.title}:`,
+				...block.rows.map(([label, value]) => `${label}: ${value}`),
+			].join("\n");
+		case "list":
+			return block.items.map((item) => `- ${item}`).join("\n");
+	}
+}
+
+/**
+ * Wraps an email's blocks in the branded layout. Every value is escaped, so
+ * templates can pass user-supplied text and URLs straight through.
+ */
+export function renderLayout(
+	content: EmailContent,
+	brand: EmailBrand,
+): RenderedEmail {
+	const messages = getEmailMessages(brand.locale);
+	const button = content.blocks.find(
+		(block): block is Extract<EmailBlock, { type: "button" }> =>
+			block.type === "button",
+	);
+
+	const body = html`<!DOCTYPE html>
+<html lang="${brand.locale}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${content.subject}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: ${COLORS.text}; max-width: 600px; margin: 0 auto; padding: 20px;">
+  ${content.preheader && html`<div style="display: none; max-height: 0; overflow: hidden;">${content.preheader}</div>`}
+  ${brand.logoUrl && html`<img src="${safeUrl(brand.logoUrl)}" alt="${brand.appName}" style="height: 40px; margin-bottom: 20px;">`}
+
+  <h1 style="color: ${COLORS.primary}; margin-bottom: 20px;">${content.subject}</h1>
+
+  ${content.blocks.map(
+		(block) => html`${renderBlockHtml(block)}
+  `,
+	)}
+  <hr style="border: none; border-top: 1px solid ${COLORS.border}; margin: 30px 0;">
+  ${
+		button &&
+		html`<p style="font-size: 12px; color: ${COLORS.faint};">
+    ${messages.layout.buttonFallback}<br>
+    <a href="${safeUrl(button.url)}" style="color: ${COLORS.primary}; word-break: break-all;">${button.url}</a>
+  </p>`
+	}
+  <p style="font-size: 12px; color: ${COLORS.faint};">
+    ${messages.layout.help} <a href="mailto:${brand.supportEmail}">${brand.supportEmail}</a>
+  </p>
+</body>
+</html>`;
+
+	const text = [
+		content.subject,
+		...content.blocks.map(renderBlockText),
+		`${messages.layout.help} ${brand.supportEmail}`,
+	].join("\n\n");
+
+	return { subject: content.subject, html: body.value, text };
+}
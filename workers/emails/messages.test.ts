@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import type { EmailBrand } from "./layout";
+import { resolveEmailLocale } from "./messages";
+import {
+	EMAIL_TEMPLATES,
+	type EmailTemplateName,
+	renderEmail,
+} from "./templates";
+
+const BRAND: EmailBrand = {
+	appName: "Example",
+	supportEmail: "support@example.com",
+	locale: "en",
+};
+
+function renderSample(name: EmailTemplateName, locale: string) {
+	return renderEmail(name, EMAIL_TEMPLATES[name].sample as never, {
+		...BRAND,
+		locale,
+	});
+}
+
+describe("resolveEmailLocale", () => {
+	test("keeps a supported tag, region included", () => {
+		expect(resolveEmailLocale("de")).toBe("de");
+		expect(resolveEmailLocale("en-gb")).toBe("en-GB");
+	});
+
+	test("picks the most preferred supported language from a header", () => {
+		expect(resolveEmailLocale("ja, fr-CA;q=0.8, de;q=0.9")).toBe("de");
+		expect(resolveEmailLocale("fr;q=0.5,en;q=0")).toBe("fr");
+	});
+
+	test("falls back to English", () => {
+		for (const value of [
+			undefined,
+			null,
+			"",
+			"*",
+			"ja",
+			"not a tag!",
+			"x;q=1",
+		]) {
+			expect(resolveEmailLocale(value)).toBe("en");
+		}
+	});
+});
+
+describe("renderEmail", () => {
+	test("writes every template in the recipient's language", () => {
+		for (const name of Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[]) {
+			const en = renderSample(name, "en");
+			const de = renderSample(name, "de");
+
+			expect(de.subject).not.toBe(en.subject);
+			expect(de.html).toContain('<html lang="de">');
+			expect(de.text).toContain("Brauchst du Hilfe?");
+		}
+	});
+
+	test("formats dates and numbers for the locale", () => {
+		expect(renderSample("account-deletion", "en").text).toContain(
+			"January 15, 2030",
+		);
+		expect(renderSample("account-deletion", "en-GB").text).toContain(
+			"15 January 2030",
+		);
+		expect(renderSample("account-deletion", "fr").text).toContain(
+			"15 janvier 2030",
+		);
+		expect(renderSample("notification-digest", "fr").subject).toBe(
+			"Vous avez 2 nouvelles notifications",
+		);
+	});
+});
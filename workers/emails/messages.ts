@@ -0,0 +1,407 @@
+import { REACTIONS } from "../reactions";
+import type { SerializedNotification } from "../services/notifications";
+
+/**
+ * Every piece of text the email templates and layout use, for one language.
+ * Values that vary are passed in already formatted for the locale.
+ */
+export type EmailMessages = {
+	greeting: (name?: string) => string;
+	/** Puts a post title in quotation marks */
+	quote: (text: string) => string;
+	layout: {
+		buttonFallback: string;
+		/** Followed by the support address */
+		help: string;
+	};
+	securityInfo: {
+		title: string;
+		ipAddress: string;
+		device: string;
+		browserOnDevice: (browser: string, device: string) => string;
+	};
+	magicLink: {
+		subject: string;
+		preheader: (minutes: string) => string;
+		intro: string;
+		button: string;
+		expiry: (minutes: string) => string;
+		ignore: string;
+	};
+	signInCode: {
+		subject: (code: string) => string;
+		preheader: (minutes: string) => string;
+		intro: string;
+		expiry: (minutes: string) => string;
+		ignore: string;
+	};
+	welcome: {
+		subject: (appName: string) => string;
+		intro: string;
+		button: string;
+		note: string;
+	};
+	emailChange: {
+		subject: string;
+		intro: (newEmail: string) => string;
+		button: string;
+		ignore: string;
+	};
+	emailVerification: {
+		subject: string;
+		intro: string;
+		button: string;
+		warning: string;
+	};
+	accountDeletion: {
+		subject: string;
+		intro: (date: string) => string;
+		button: string;
+		warning: string;
+	};
+	dataExport: {
+		subject: string;
+		intro: string;
+		button: string;
+		expiry: (date: string) => string;
+	};
+	notificationDigest: {
+		/** `one` is whether the count takes the singular in this language */
+		subject: (count: string, one: boolean) => string;
+		intro: string;
+		button: string;
+		comment: (actor: string, title: string) => string;
+		reply: (actor: string, title: string) => string;
+		reaction: (actor: string, reaction: string, title: string) => string;
+	};
+};
+
+const en: EmailMessages = {
+	greeting: (name) => (name ? `Hi ${name},` : "Hello,"),
+	quote: (text) => `“${text}”`,
+	layout: {
+		buttonFallback:
+			"If you have trouble clicking the button, copy and paste this URL into your browser:",
+		help: "Need help? Contact us at",
+	},
+	securityInfo: {
+		title: "Security Info",
+		ipAddress: "IP Address",
+		device: "Device",
+		browserOnDevice: (browser, device) => `${browser} on ${device}`,
+	},
+	magicLink: {
+		subject: "Sign in to your account",
+		preheader: (minutes) => `Your sign-in link expires in ${minutes} minutes.`,
+		intro:
+			"You requested to sign in to your account. Click the button below to securely access your account:",
+		button: "Sign In Securely",
+		expiry: (minutes) =>
+			`Important: This link will expire in ${minutes} minutes and can only be used once.`,
+		ignore:
+			"If you didn't request this sign-in, you can safely ignore this email.",
+	},
+	signInCode: {
+		subject: (code) => `${code} is your sign-in code`,
+		preheader: (minutes) => `Your sign-in code expires in ${minutes} minutes.`,
+		intro:
+			"You requested to sign in to your account. Enter this code on the sign-in page:",
+		expiry: (minutes) =>
+			`Important: This code will expire in ${minutes} minutes and can only be used once. Never share it with anyone.`,
+		ignore:
+			"If you didn't request this sign-in, you can safely ignore this email.",
+	},
+	welcome: {
+		subject: (appName) => `Welcome to ${appName}`,
+		intro:
+			"Thanks for signing up. Your account is ready, so jump in and share your first post.",
+		button: "Go to Your Feed",
+		note: "You can change your name, photo and email address at any time in your settings.",
+	},
+	emailChange: {
+		subject: "Confirm your new email address",
+		intro: (newEmail) =>
+			`You asked to change the email address on your account to ${newEmail}. Click the button below to approve the change. We will then send a verification link to the new address.`,
+		button: "Approve Email Change",
+		ignore:
+			"If you didn't ask for this, ignore this email and your address will stay the same.",
+	},
+	emailVerification: {
+		subject: "Verify your email address",
+		intro: "Click the button below to verify that this is your email address.",
+		button: "Verify Email",
+		warning:
+			"If you didn't change your email address, contact us straight away.",
+	},
+	accountDeletion: {
+		subject: "Your account is scheduled for deletion",
+		intro: (date) =>
+			`As you asked, your account will be deleted on ${date}. Your profile, posts, comments and uploads will be removed and cannot be recovered. Changed your mind? Click the button below before then to keep your account.`,
+		button: "Keep My Account",
+		warning:
+			"If you didn't ask for this, click the button above and contact us.",
+	},
+	dataExport: {
+		subject: "Your data export is ready",
+		intro:
+			"The copy of your data you asked for is ready. Click the button below to download it.",
+		button: "Download My Data",
+		expiry: (date) =>
+			`The link works until ${date}, after which the export is deleted.`,
+	},
+	notificationDigest: {
+		subject: (count, one) =>
+			`You have ${count} new ${one ? "notification" : "notifications"}`,
+		intro: "Here's what you missed:",
+		button: "View Notifications",
+		comment: (actor, title) => `${actor} commented on ${title}`,
+		reply: (actor, title) => `${actor} replied to your comment on ${title}`,
+		reaction: (actor, reaction, title) =>
+			`${actor} reacted ${reaction} to ${title}`,
+	},
+};
+
+const de: EmailMessages = {
+	greeting: (name) => (name ? `Hallo ${name},` : "Hallo,"),
+	quote: (text) => `„${text}“`,
+	layout: {
+		buttonFallback:
+			"Falls die Schaltfläche nicht funktioniert, kopiere diese URL in deinen Browser:",
+		help: "Brauchst du Hilfe? Schreib uns an",
+	},
+	securityInfo: {
+		title: "Sicherheitsinformationen",
+		ipAddress: "IP-Adresse",
+		device: "Gerät",
+		browserOnDevice: (browser, device) => `${browser} auf ${device}`,
+	},
+	magicLink: {
+		subject: "Bei deinem Konto anmelden",
+		preheader: (minutes) => `Dein Anmeldelink läuft in ${minutes} Minuten ab.`,
+		intro:
+			"Du hast eine Anmeldung bei deinem Konto angefordert. Klicke auf die Schaltfläche unten, um sicher auf dein Konto zuzugreifen:",
+		button: "Sicher anmelden",
+		expiry: (minutes) =>
+			`Wichtig: Dieser Link läuft in ${minutes} Minuten ab und kann nur einmal verwendet werden.`,
+		ignore:
+			"Falls du diese Anmeldung nicht angefordert hast, kannst du diese E-Mail einfach ignorieren.",
+	},
+	signInCode: {
+		subject: (code) => `${code} ist dein Anmeldecode`,
+		preheader: (minutes) => `Dein Anmeldecode läuft in ${minutes} Minuten ab.`,
+		intro:
+			"Du hast eine Anmeldung bei deinem Konto angefordert. Gib diesen Code auf der Anmeldeseite ein:",
+		expiry: (minutes) =>
+			`Wichtig: Dieser Code läuft in ${minutes} Minuten ab und kann nur einmal verwendet werden. Gib ihn niemals an andere weiter.`,
+		ignore:
+			"Falls du diese Anmeldung nicht angefordert hast, kannst du diese E-Mail einfach ignorieren.",
+	},
+	welcome: {
+		subject: (appName) => `Willkommen bei ${appName}`,
+		intro:
+			"Danke für deine Registrierung. Dein Konto ist bereit, also leg los und teile deinen ersten Beitrag.",
+		button: "Zu deinem Feed",
+		note: "Du kannst deinen Namen, dein Foto und deine E-Mail-Adresse jederzeit in deinen Einstellungen ändern.",
+	},
+	emailChange: {
+		subject: "Bestätige deine neue E-Mail-Adresse",
+		intro: (newEmail) =>
+			`Du möchtest die E-Mail-Adresse deines Kontos in ${newEmail} ändern. Klicke auf die Schaltfläche unten, um die Änderung zu bestätigen. Danach senden wir einen Bestätigungslink an die neue Adresse.`,
+		button: "Änderung bestätigen",
+		ignore:
+			"Falls du das nicht angefordert hast, ignoriere diese E-Mail. Deine Adresse bleibt dann unverändert.",
+	},
+	emailVerification: {
+		subject: "Bestätige deine E-Mail-Adresse",
+		intro:
+			"Klicke auf die Schaltfläche unten, um zu bestätigen, dass dies deine E-Mail-Adresse ist.",
+		button: "E-Mail-Adresse bestätigen",
+		warning:
+			"Falls du deine E-Mail-Adresse nicht geändert hast, kontaktiere uns bitte umgehend.",
+	},
+	accountDeletion: {
+		subject: "Dein Konto wird gelöscht",
+		intro: (date) =>
+			`Wie gewünscht wird dein Konto am ${date} gelöscht. Dein Profil, deine Beiträge, Kommentare und Uploads werden entfernt und können nicht wiederhergestellt werden. Du hast es dir anders überlegt? Klicke vorher auf die Schaltfläche unten, um dein Konto zu behalten.`,
+		button: "Mein Konto behalten",
+		warning:
+			"Falls du das nicht angefordert hast, klicke auf die Schaltfläche oben und kontaktiere uns.",
+	},
+	dataExport: {
+		subject: "Dein Datenexport ist bereit",
+		intro:
+			"Die angeforderte Kopie deiner Daten ist bereit. Klicke auf die Schaltfläche unten, um sie herunterzuladen.",
+		button: "Meine Daten herunterladen",
+		expiry: (date) =>
+			`Der Link funktioniert bis ${date}. Danach wird der Export gelöscht.`,
+	},
+	notificationDigest: {
+		subject: (count, one) =>
+			`Du hast ${count} ${one ? "neue Benachrichtigung" : "neue Benachrichtigungen"}`,
+		intro: "Das hast du verpasst:",
+		button: "Benachrichtigungen ansehen",
+		comment: (actor, title) => `${actor} hat ${title} kommentiert`,
+		reply: (actor, title) =>
+			`${actor} hat auf deinen Kommentar zu ${title} geantwortet`,
+		reaction: (actor, reaction, title) =>
+			`${actor} hat mit ${reaction} auf ${title} reagiert`,
+	},
+};
+
+const fr: EmailMessages = {
+	greeting: (name) => (name ? `Bonjour ${name},` : "Bonjour,"),
+	quote: (text) => `« ${text} »`,
+	layout: {
+		buttonFallback:
+			"Si le bouton ne fonctionne pas, copiez et collez cette URL dans votre navigateur :",
+		help: "Besoin d'aide ? Contactez-nous à l'adresse",
+	},
+	securityInfo: {
+		title: "Informations de sécurité",
+		ipAddress: "Adresse IP",
+		device: "Appareil",
+		browserOnDevice: (browser, device) => `${browser} sur ${device}`,
+	},
+	magicLink: {
+		subject: "Connectez-vous à votre compte",
+		preheader: (minutes) =>
+			`Votre lien de connexion expire dans ${minutes} minutes.`,
+		intro:
+			"Vous avez demandé à vous connecter à votre compte. Cliquez sur le bouton ci-dessous pour y accéder en toute sécurité :",
+		button: "Se connecter en toute sécurité",
+		expiry: (minutes) =>
+			`Important : ce lien expire dans ${minutes} minutes et ne peut être utilisé qu'une seule fois.`,
+		ignore:
+			"Si vous n'êtes pas à l'origine de cette demande, vous pouvez ignorer cet e-mail.",
+	},
+	signInCode: {
+		subject: (code) => `${code} est votre code de connexion`,
+		preheader: (minutes) =>
+			`Votre code de connexion expire dans ${minutes} minutes.`,
+		intro:
+			"Vous avez demandé à vous connecter à votre compte. Saisissez ce code sur la page de connexion :",
+		expiry: (minutes) =>
+			`Important : ce code expire dans ${minutes} minutes et ne peut être utilisé qu'une seule fois. Ne le communiquez jamais à personne.`,
+		ignore:
+			"Si vous n'êtes pas à l'origine de cette demande, vous pouvez ignorer cet e-mail.",
+	},
+	welcome: {
+		subject: (appName) => `Bienvenue sur ${appName}`,
+		intro:
+			"Merci de votre inscription. Votre compte est prêt : lancez-vous et partagez votre première publication.",
+		button: "Accéder à votre fil",
+		note: "Vous pouvez modifier votre nom, votre photo et votre adresse e-mail à tout moment dans vos paramètres.",
+	},
+	emailChange: {
+		subject: "Confirmez votre nouvelle adresse e-mail",
+		intro: (newEmail) =>
+			`Vous avez demandé à remplacer l'adresse e-mail de votre compte par ${newEmail}. Cliquez sur le bouton ci-dessous pour approuver ce changement. Nous enverrons ensuite un lien de vérification à la nouvelle adresse.`,
+		button: "Approuver le changement",
+		ignore:
+			"Si vous n'êtes pas à l'origine de cette demande, ignorez cet e-mail : votre adresse restera inchangée.",
+	},
+	emailVerification: {
+		subject: "Vérifiez votre adresse e-mail",
+		intro:
+			"Cliquez sur le bouton ci-dessous pour confirmer qu'il s'agit bien de votre adresse e-mail.",
+		button: "Vérifier l'adresse e-mail",
+		warning:
+			"Si vous n'avez pas modifié votre adresse e-mail, contactez-nous immédiatement.",
+	},
+	accountDeletion: {
+		subject: "La suppression de votre compte est programmée",
+		intro: (date) =>
+			`Comme vous l'avez demandé, votre compte sera supprimé le ${date}. Votre profil, vos publications, vos commentaires et vos fichiers seront supprimés définitivement. Vous avez changé d'avis ? Cliquez sur le bouton ci-dessous avant cette date pour conserver votre compte.`,
+		button: "Conserver mon compte",
+		warning:
+			"Si vous n'êtes pas à l'origine de cette demande, cliquez sur le bouton ci-dessus et contactez-nous.",
+	},
+	dataExport: {
+		subject: "Votre export de données est prêt",
+		intro:
+			"La copie de vos données que vous avez demandée est prête. Cliquez sur le bouton ci-dessous pour la télécharger.",
+		button: "Télécharger mes données",
+		expiry: (date) =>
+			`Le lien fonctionne jusqu'au ${date}, après quoi l'export est supprimé.`,
+	},
+	notificationDigest: {
+		subject: (count, one) =>
+			`Vous avez ${count} ${one ? "nouvelle notification" : "nouvelles notifications"}`,
+		intro: "Voici ce que vous avez manqué :",
+		button: "Voir les notifications",
+		comment: (actor, title) => `${actor} a commenté ${title}`,
+		reply: (actor, title) =>
+			`${actor} a répondu à votre commentaire sur ${title}`,
+		reaction: (actor, reaction, title) =>
+			`${actor} a réagi ${reaction} à ${title}`,
+	},
+};
+
+/** Messages by language subtag */
+const EMAIL_MESSAGES: Record<string, EmailMessages> = { en, de, fr };
+
+export const DEFAULT_EMAIL_LOCALE = "en";
+
+/**
+ * The messages for a locale's language, in English if it has none
+ */
+export function getEmailMessages(locale: string): EmailMessages {
+	const { language } = new Intl.Locale(locale);
+	return Object.hasOwn(EMAIL_MESSAGES, language)
+		? EMAIL_MESSAGES[language]
+		: en;
+}
+
+/**
+ * Picks the locale to write an email in from a language tag or an
+ * `Accept-Language` header: the most preferred valid tag in a language
+ * emails are written in. The tag is kept whole, so e.g. `en-GB` still
+ * formats dates the British way.
+ */
+export function resolveEmailLocale(preferred?: string | null): string {
+	const ranked = (preferred ?? "")
+		.split(",")
+		.map((entry) => {
+			const [tag, ...params] = entry.split(";").map((part) => part.trim());
+			const quality = params.find((param) => param.startsWith("q="));
+			return { tag, quality: quality ? Number(quality.slice(2)) : 1 };
+		})
+		.filter(({ tag, quality }) => tag && tag !== "*" && quality > 0)
+		.sort((a, b) => b.quality - a.quality);
+
+	for (const { tag } of ranked) {
+		let locale: string;
+		try {
+			[locale] = Intl.getCanonicalLocales(tag);
+		} catch {
+			continue;
+		}
+		if (Object.hasOwn(EMAIL_MESSAGES, new Intl.Locale(locale).language)) {
+			return locale;
+		}
+	}
+	return DEFAULT_EMAIL_LOCALE;
+}
+
+/**
+ * One line of a notification digest, in the recipient's language
+ */
+export function describeNotificationIn(
+	messages: EmailMessages,
+	notification: SerializedNotification,
+) {
+	const title = messages.quote(notification.postTitle);
+	const { notificationDigest } = messages;
+	switch (notification.type) {
+		case "comment":
+			return notificationDigest.comment(notification.actorName, title);
+		case "reply":
+			return notificationDigest.reply(notification.actorName, title);
+		case "reaction":
+			return notificationDigest.reaction(
+				notification.actorName,
+				notification.reaction ? REACTIONS[notification.reaction] : "",
+				title,
+			);
+	}
+}
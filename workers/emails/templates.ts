@@ -0,0 +1,337 @@
+import type { SerializedNotification } from "../services/notifications";
+import { describeUserAgent } from "../services/sessions";
+import {
+	type EmailBlock,
+	type EmailBrand,
+	type EmailContent,
+	type RenderedEmail,
+	renderLayout,
+} from "./layout";
+import {
+	type EmailMessages,
+	describeNotificationIn,
+	getEmailMessages,
+} from "./messages";
+
+/**
+ * Parameters each email template is rendered with
+ */
+export type EmailTemplateParams = {
+	"magic-link": {
+		magicLink: string;
+		expiresInMinutes: number;
+		ipAddress?: string;
+		userAgent?: string;
+	};
+	"sign-in-code": {
+		code: string;
+		expiresInMinutes: number;
+		ipAddress?: string;
+		userAgent?: string;
+	};
+	welcome: { name: string; url: string };
+	"email-change": { newEmail: string; url: string };
+	"email-verification": { url: string };
+	"account-deletion": { scheduledFor: Date; cancelUrl: string };
+	"data-export": { url: string; expiresAt: Date };
+	"notification-digest": {
+		name: string;
+		notifications: SerializedNotification[];
+		url: string;
+	};
+};
+
+export type EmailTemplateName = keyof EmailTemplateParams;
+
+/** Sent as a tag with each email so providers can report on them separately */
+export type EmailCategory = "authentication" | "account" | "notifications";
+
+type EmailTemplate<P> = {
+	category: EmailCategory;
+	/**
+	 * Mail the user is waiting on to sign in or confirm a change. It is sent
+	 * straight away and only queued for retries if that fails.
+	 */
+	critical?: boolean;
+	render: (params: P, context: EmailContext) => EmailContent;
+	/** Example parameters for the `/dev/emails` previews */
+	sample: P;
+};
+
+/**
+ * What a template is rendered with besides its parameters: the brand and
+ * the text and formatting for the recipient's locale
+ */
+type EmailContext = {
+	brand: EmailBrand;
+	messages: EmailMessages;
+	formatDate: (date: Date) => string;
+	formatNumber: (value: number) => string;
+	/** Whether a count takes the singular in the recipient's language */
+	isOne: (count: number) => boolean;
+};
+
+function createContext(brand: EmailBrand): EmailContext {
+	const dates = new Intl.DateTimeFormat(brand.locale, {
+		dateStyle: "long",
+		timeStyle: "long",
+		timeZone: "UTC",
+	});
+	const numbers = new Intl.NumberFormat(brand.locale);
+	const plurals = new Intl.PluralRules(brand.locale);
+	return {
+		brand,
+		messages: getEmailMessages(brand.locale),
+		formatDate: (date) => dates.format(date),
+		formatNumber: (value) => numbers.format(value),
+		isOne: (count) => plurals.select(count) === "one",
+	};
+}
+
+/**
+ * Where a sign-in request came from, so the user can tell if it wasn't them
+ */
+function securityInfo(
+	{ securityInfo: labels }: EmailMessages,
+	ipAddress?: string,
+	userAgent?: string,
+): EmailBlock[] {
+	if (!ipAddress) {
+		return [];
+	}
+	const rows: [string, string][] = [[labels.ipAddress, ipAddress]];
+	if (userAgent) {
+		const { browser, device } = describeUserAgent(userAgent);
+		rows.push([labels.device, labels.browserOnDevice(browser, device)]);
+	}
+	return [{ type: "details", title: labels.title, rows }];
+}
+
+const SAMPLE_URL = "https://example.com/action?token=sample";
+const SAMPLE_IP_ADDRESS = "203.0.113.7";
+const SAMPLE_USER_AGENT =
+	"Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Safari/605.1.15";
+
+export const EMAIL_TEMPLATES: {
+	[Name in EmailTemplateName]: EmailTemplate<EmailTemplateParams[Name]>;
+} = {
+	"magic-link": {
+		category: "authentication",
+		critical: true,
+		render: (
+			{ magicLink, expiresInMinutes, ipAddress, userAgent },
+			{ messages, formatNumber },
+		) => {
+			const t = messages.magicLink;
+			const minutes = formatNumber(expiresInMinutes);
+			return {
+				subject: t.subject,
+				preheader: t.preheader(minutes),
+				blocks: [
+					{ type: "paragraph", text: messages.greeting() },
+					{ type: "paragraph", text: t.intro },
+					{ type: "button", label: t.button, url: magicLink },
+					{ type: "paragraph", text: t.expiry(minutes) },
+					{ type: "paragraph", text: t.ignore },
+					...securityInfo(messages, ipAddress, userAgent),
+				],
+			};
+		},
+		sample: {
+			magicLink: SAMPLE_URL,
+			expiresInMinutes: 10,
+			ipAddress: SAMPLE_IP_ADDRESS,
+			userAgent: SAMPLE_USER_AGENT,
+		},
+	},
+	"sign-in-code": {
+		category: "authentication",
+		critical: true,
+		// The code is in the subject so it can be read from the notification
+		render: (
+			{ code, expiresInMinutes, ipAddress, userAgent },
+			{ messages, formatNumber },
+		) => {
+			const t = messages.signInCode;
+			const minutes = formatNumber(expiresInMinutes);
+			return {
+				subject: t.subject(code),
+				preheader: t.preheader(minutes),
+				blocks: [
+					{ type: "paragraph", text: messages.greeting() },
+					{ type: "paragraph", text: t.intro },
+					{ type: "code", code },
+					{ type: "paragraph", text: t.expiry(minutes) },
+					{ type: "paragraph", text: t.ignore },
+					...securityInfo(messages, ipAddress, userAgent),
+				],
+			};
+		},
+		sample: {
+			code: "482913",
+			expiresInMinutes: 10,
+			ipAddress: SAMPLE_IP_ADDRESS,
+			userAgent: SAMPLE_USER_AGENT,
+		},
+	},
+	welcome: {
+		category: "account",
+		render: ({ name, url }, { brand, messages }) => {
+			const t = messages.welcome;
+			return {
+				subject: t.subject(brand.appName),
+				blocks: [
+					{ type: "paragraph", text: messages.greeting(name) },
+					{ type: "paragraph", text: t.intro },
+					{ type: "button", label: t.button, url },
+					{ type: "note", text: t.note },
+				],
+			};
+		},
+		sample: { name: "Alice", url: "https://example.com/feed" },
+	},
+	"email-change": {
+		category: "account",
+		critical: true,
+		render: ({ newEmail, url }, { messages }) => {
+			const t = messages.emailChange;
+			return {
+				subject: t.subject,
+				blocks: [
+					{ type: "paragraph", text: messages.greeting() },
+					{ type: "paragraph", text: t.intro(newEmail) },
+					{ type: "button", label: t.button, url },
+					{ type: "paragraph", text: t.ignore },
+				],
+			};
+		},
+		sample: { newEmail: "alice@new.example.com", url: SAMPLE_URL },
+	},
+	"email-verification": {
+		category: "account",
+		critical: true,
+		render: ({ url }, { messages }) => {
+			const t = messages.emailVerification;
+			return {
+				subject: t.subject,
+				blocks: [
+					{ type: "paragraph", text: messages.greeting() },
+					{ type: "paragraph", text: t.intro },
+					{ type: "button", label: t.button, url },
+					{ type: "paragraph", text: t.warning },
+				],
+			};
+		},
+		sample: { url: SAMPLE_URL },
+	},
+	"account-deletion": {
+		category: "account",
+		render: ({ scheduledFor, cancelUrl }, { messages, formatDate }) => {
+			const t = messages.accountDeletion;
+			return {
+				subject: t.subject,
+				blocks: [
+					{ type: "paragraph", text: messages.greeting() },
+					{ type: "paragraph", text: t.intro(formatDate(scheduledFor)) },
+					{ type: "button", label: t.button, url: cancelUrl },
+					{ type: "paragraph", text: t.warning },
+				],
+			};
+		},
+		sample: {
+			scheduledFor: new Date(Date.UTC(2030, 0, 15, 9, 30)),
+			cancelUrl: SAMPLE_URL,
+		},
+	},
+	"data-export": {
+		category: "account",
+		render: ({ url, expiresAt }, { messages, formatDate }) => {
+			const t = messages.dataExport;
+			return {
+				subject: t.subject,
+				blocks: [
+					{ type: "paragraph", text: messages.greeting() },
+					{ type: "paragraph", text: t.intro },
+					{ type: "button", label: t.button, url },
+					{ type: "paragraph", text: t.expiry(formatDate(expiresAt)) },
+				],
+			};
+		},
+		sample: {
+			url: SAMPLE_URL,
+			expiresAt: new Date(Date.UTC(2030, 0, 8, 9, 30)),
+		},
+	},
+	"notification-digest": {
+		category: "notifications",
+		render: (
+			{ name, notifications, url },
+			{ messages, formatNumber, isOne },
+		) => {
+			const t = messages.notificationDigest;
+			const items = notifications.map((notification) =>
+				describeNotificationIn(messages, notification),
+			);
+			return {
+				subject: t.subject(
+					formatNumber(notifications.length),
+					isOne(notifications.length),
+				),
+				preheader: items[0],
+				blocks: [
+					{ type: "paragraph", text: messages.greeting(name) },
+					{ type: "paragraph", text: t.intro },
+					{ type: "list", items },
+					{ type: "button", label: t.button, url },
+				],
+			};
+		},
+		sample: {
+			name: "Alice",
+			url: "https://example.com/notifications",
+			notifications: [
+				{
+					id: "sample-1",
+					type: "comment",
+					actorName: "Bob",
+					postId: "post-1",
+					postTitle: "Tips & tricks for <script> tags",
+					reaction: null,
+					read: false,
+					createdAt: "2030-01-01T09:00:00.000Z",
+				},
+				{
+					id: "sample-2",
+					type: "reaction",
+					actorName: "Carol",
+					postId: "post-2",
+					postTitle: "Hello world",
+					reaction: "celebrate",
+					read: false,
+					createdAt: "2030-01-01T08:00:00.000Z",
+				},
+			],
+		},
+	},
+};
+
+export function isEmailTemplateName(value: string): value is EmailTemplateName {
+	return Object.hasOwn(EMAIL_TEMPLATES, value);
+}
+
+/**
+ * Renders a template inside the shared layout
+ */
+export function renderEmail<Name extends EmailTemplateName>(
+	name: Name,
+	params: EmailTemplateParams[Name],
+	brand: EmailBrand,
+): RenderedEmail & { category: EmailCategory; critical: boolean } {
+	const template: EmailTemplate<EmailTemplateParams[Name]> =
+		EMAIL_TEMPLATES[name];
+	return {
+		category: template.category,
+		critical: template.critical ?? false,
+		...renderLayout(template.render(params, createContext(brand)), brand),
+	};
+}
@@ -0,0 +1,61 @@
+import { DurableObject } from "cloudflare:workers";
+import { type FeedEvent, feedEventRecipient } from "./services/feed-events";
+
+/**
+ * Header the worker uses to tell the hub which signed-in user opened a socket
+ */
+export const FEED_USER_HEADER = "X-Feed-User-Id";
+
+// Close codes that only describe a close and must not be sent in a frame
+const RESERVED_CLOSE_CODES = new Set([1005, 1006, 1015]);
+
+/**
+ * Holds the WebSocket connection of everyone looking at the feed and fans
+ * feed events out to the connections of the user each event is for. Sockets use the hibernation API, so an idle hub
+ * is evicted from memory without dropping its connections.
+ */
+export class FeedHub extends DurableObject<CloudflareEnvironment> {
+	constructor(ctx: DurableObjectState, env: CloudflareEnvironment) {
+		super(ctx, env);
+		// Answer client keep-alives without waking the hub
+		ctx.setWebSocketAutoResponse(
+			new WebSocketRequestResponsePair("ping", "pong"),
+		);
+	}
+
+	async fetch(request: Request) {
+		if (request.headers.get("Upgrade") !== "websocket") {
+			return new Response("Expected a WebSocket upgrade", { status: 426 });
+		}
+		const userId = request.headers.get(FEED_USER_HEADER);
+		if (!userId) {
+			return new Response("Unauthorized", { status: 401 });
+		}
+
+		const { 0: client, 1: server } = new WebSocketPair();
+		this.ctx.acceptWebSocket(server, [userId]);
+		return new Response(null, { status: 101, webSocket: client });
+	}
+
+	/**
+	 * Sends an event to every connection of its recipient. Sockets are tagged
+	 * with the user who opened them.
+	 */
+	async broadcast(event: FeedEvent) {
+		const message = JSON.stringify(event);
+		for (const socket of this.ctx.getWebSockets(feedEventRecipient(event))) {
+			try {
+				socket.send(message);
+			} catch (error) {
+				console.error("Failed to send feed event:", error);
+			}
+		}
+	}
+
+	async webSocketClose(socket: WebSocket, code: number, reason: string) {
+		// Codes such as 1005 (no code sent) and 1006 (connection lost) are
+		// reserved and cannot be sent back, so those are answered with a
+		// normal close
+		socket.close(RESERVED_CLOSE_CODES.has(code) ? 1000 : code, reason);
+	}
+}
@@ -0,0 +1,147 @@
+/**
+ * URL scheme for the `/img` transform route, shared by the route and the
+ * Image component. Options come first, comma separated, followed by the
+ * attachment id, e.g. `/img/w=640,q=75,f=auto/<id>`.
+ */
+export const IMAGE_FORMATS = ["auto", "avif", "webp", "jpeg", "png"] as const;
+
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+export const IMAGE_FITS = ["cover", "contain", "scale-down", "crop"] as const;
+
+export type ImageFit = (typeof IMAGE_FITS)[number];
+
+export type ImageOptions = {
+	width?: number;
+	height?: number;
+	quality?: number;
+	format?: ImageFormat;
+	fit?: ImageFit;
+};
+
+/**
+ * Widths offered in responsive `srcset`s. Keeping to a fixed list means the
+ * same few variants of each image are requested and cached.
+ */
+export const RESPONSIVE_IMAGE_WIDTHS = [320, 640, 960, 1280, 1920];
+
+export const MAX_IMAGE_DIMENSION = 2560;
+
+export const DEFAULT_IMAGE_QUALITY = 75;
+
+const FILE_URL_PATTERN = /^\/api\/files\/([^/?#]+)(\?[^#]*)?$/;
+
+function parseDimension(value: string) {
+	const number = Number(value);
+	return Number.isInteger(number) && number > 0 && number <= MAX_IMAGE_DIMENSION
+		? number
+		: undefined;
+}
+
+function includes<T extends string>(list: readonly T[], value: string) {
+	return (list as readonly string[]).includes(value) ? (value as T) : undefined;
+}
+
+/**
+ * Parses the options segment of an `/img` URL, returning null if any option
+ * is unknown or out of range
+ */
+export function parseImageOptions(segment: string): ImageOptions | null {
+	const options: ImageOptions = {};
+	for (const pair of segment.split(",")) {
+		const [key, value = ""] = pair.split("=");
+		switch (key) {
+			case "w":
+				options.width = parseDimension(value);
+				if (!options.width) {
+					return null;
+				}
+				break;
+			case "h":
+				options.height = parseDimension(value);
+				if (!options.height) {
+					return null;
+				}
+				break;
+			case "q": {
+				const quality = Number(value);
+				if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+					return null;
+				}
+				options.quality = quality;
+				break;
+			}
+			case "f":
+				options.format = includes(IMAGE_FORMATS, value);
+				if (!options.format) {
+					return null;
+				}
+				break;
+			case "fit":
+				options.fit = includes(IMAGE_FITS, value);
+				if (!options.fit) {
+					return null;
+				}
+				break;
+			default:
+				return null;
+		}
+	}
+	return options;
+}
+
+/**
+ * Rewrites an attachment URL to its transformed variant. Any other URL is
+ * returned unchanged, since only uploads can be transformed.
+ */
+export function imageUrl(src: string, options: ImageOptions) {
+	const match = FILE_URL_PATTERN.exec(src);
+	if (!match) {
+		return src;
+	}
+	const [, id, query = ""] = match;
+	const segment = [
+		options.width && `w=${options.width}`,
+		options.height && `h=${options.height}`,
+		`q=${options.quality ?? DEFAULT_IMAGE_QUALITY}`,
+		`f=${options.format ?? "auto"}`,
+		options.fit && `fit=${options.fit}`,
+	]
+		.filter(Boolean)
+		.join(",");
+	return `/img/${segment}/${id}${query}`;
+}
+
+export type ImageOutputType =
+	| "image/avif"
+	| "image/webp"
+	| "image/jpeg"
+	| "image/png"
+	| "image/gif";
+
+/**
+ * Picks the output type for a request. `auto` serves the smallest format the
+ * browser accepts and otherwise keeps the source's own type.
+ */
+export function resolveImageFormat(
+	format: ImageFormat | undefined,
+	accept: string | undefined,
+	sourceType: string,
+): ImageOutputType {
+	if (format && format !== "auto") {
+		return `image/${format}`;
+	}
+	if (accept?.includes("image/avif")) {
+		return "image/avif";
+	}
+	if (accept?.includes("image/webp")) {
+		return "image/webp";
+	}
+	return sourceType === "image/png" || sourceType === "image/gif"
+		? sourceType
+		: "image/jpeg";
+}
+
+export function isTransformableUrl(src: string) {
+	return FILE_URL_PATTERN.test(src);
+}
@@ -1,41 +1,68 @@
 import { drizzle } from "drizzle-orm/d1";
 import { createMiddleware } from "hono/factory";
 
-import type { AppType } from "./types";
-
-import { authAdminSchema } from "@portcityai/better-auth";
+import { runSeeds, seedConfigFromEnv } from "../api/database/seed";
+import { authFactory } from "./auth";
+import { isLocalDevMode } from "./dev-mode";
+import { hasAdminRole } from "./roles";
+import { createAuditRecorder } from "./services/audit";
+import type { AppType, SessionEnv } from "./types";
 
 const D1DbMiddleware = createMiddleware<AppType>(async (c, next) => {
 	const db = drizzle(c.env.DB);
-	const baseUrl = c?.req.url
-		? new URL(c.req.url).origin
-		: "https://example.com";
 	c.set("Database", {
 		client: db,
-		seed: async () => {
-			const users = await c.var.Database.client
-				.select()
-				.from(authAdminSchema.user);
-			if (users.length > 0) {
-				console.log("Database already seeded");
-				return;
-			}
-			console.log("Seeding database with super admin");
-			await c.var.Database.client
-				.insert(authAdminSchema.user)
-				.values({
-					id: "admin",
-					name: "Dominik Fretz",
-					email: "dominik@portcityai.com",
-					emailVerified: true,
-					createdAt: new Date(),
-					updatedAt: new Date(),
-					role: "admin",
-				})
-				.run();
-		},
+		seed: (sets) => runSeeds(db, seedConfigFromEnv(c.env), sets),
 	});
+	c.set("recordAuditEvent", createAuditRecorder(db, c.req.raw));
+	await next();
+});
+
+/**
+ * Lets a request through on a local dev server (see `isLocalDevMode`) or when
+ * it carries an admin session; everything else gets a 403.
+ */
+const DevOrAdminMiddleware = createMiddleware<AppType>(async (c, next) => {
+	if (!isLocalDevMode(c.env, c.req.raw)) {
+		const auth = await authFactory(c.env, c.req.raw);
+		const session = await auth.api.getSession({ headers: c.req.raw.headers });
+		if (!session || !hasAdminRole(session.user.role)) {
+			return c.json({ error: "Forbidden" }, 403);
+		}
+	}
 	await next();
 });
 
-export { D1DbMiddleware };
+/**
+ * Development tools: a 404 outside a local dev server, as if the route did
+ * not exist.
+ */
+const DevModeMiddleware = createMiddleware<AppType>(async (c, next) => {
+	if (!isLocalDevMode(c.env, c.req.raw)) {
+		return c.json({ error: "Not Found" }, 404);
+	}
+	await next();
+});
+
+/**
+ * Rejects requests without a session with a 401 and exposes the session to
+ * later handlers as `c.var.session`.
+ */
+const SessionMiddleware = createMiddleware<AppType & SessionEnv>(
+	async (c, next) => {
+		const auth = await authFactory(c.env, c.req.raw);
+		const session = await auth.api.getSession({ headers: c.req.raw.headers });
+		if (!session) {
+			return c.json({ error: "Unauthorized" }, 401);
+		}
+		c.set("session", session);
+		await next();
+	},
+);
+
+export {
+	D1DbMiddleware,
+	DevModeMiddleware,
+	DevOrAdminMiddleware,
+	SessionMiddleware,
+};
@@ -0,0 +1,92 @@
+/**
+ * Minimal MIME writer for sending through Cloudflare's `send_email` binding,
+ * which takes a raw message. Builds a multipart/alternative message with a
+ * plain text and an HTML part, both base64-encoded UTF-8.
+ */
+export type MimeMessage = {
+	from: { email: string; name?: string };
+	to: string;
+	subject: string;
+	text: string;
+	html: string;
+	headers?: Record<string, string>;
+};
+
+function toBase64(value: string) {
+	const bytes = new TextEncoder().encode(value);
+	let binary = "";
+	// Chunked so long bodies don't overflow the argument list
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
+
+// Lines in a MIME body must stay under 998 characters; 76 is conventional
+function wrap(value: string, width = 76) {
+	return value.match(new RegExp(`.{1,${width}}`, "g"))?.join("\r\n") ?? "";
+}
+
+/**
+ * RFC 2047 encoded-word, so non-ASCII subjects and names survive
+ */
+function encodeHeader(value: string) {
+	return /^[\x20-\x7e]*$/.test(value)
+		? value
+		: `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+function formatAddress({ email, name }: { email: string; name?: string }) {
+	if (!name) {
+		return email;
+	}
+	const encoded = encodeHeader(name);
+	return encoded === name
+		? `"${name.replaceAll('"', "")}" <${email}>`
+		: `${encoded} <${email}>`;
+}
+
+// Header values can't contain line breaks, which would start a new header
+function headerValue(value: string) {
+	return value.replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * @returns the raw message and the Message-ID it was given
+ */
+export function createMimeMessage(message: MimeMessage) {
+	const boundary = `alt-${crypto.randomUUID()}`;
+	const domain = message.from.email.split("@")[1] ?? "localhost";
+	const messageId = `<${crypto.randomUUID()}@${domain}>`;
+	const headers: Record<string, string> = {
+		From: formatAddress(message.from),
+		To: message.to,
+		Subject: encodeHeader(headerValue(message.subject)),
+		Date: new Date().toUTCString(),
+		"Message-ID": messageId,
+		"MIME-Version": "1.0",
+		...message.headers,
+		"Content-Type": `multipart/alternative; boundary="${boundary}"`,
+	};
+
+	const part = (type: string, body: string) =>
+		[
+			`--${boundary}`,
+			`Content-Type: ${type}; charset=utf-8`,
+			"Content-Transfer-Encoding: base64",
+			"",
+			wrap(toBase64(body)),
+		].join("\r\n");
+
+	const raw = [
+		...Object.entries(headers).map(
+			([name, value]) => `${name}: ${headerValue(value)}`,
+		),
+		"",
+		part("text/plain", message.text),
+		part("text/html", message.html),
+		`--${boundary}--`,
+		"",
+	].join("\r\n");
+	return { raw, messageId };
+}
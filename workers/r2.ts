@@ -0,0 +1,11 @@
+// R2 deletes at most 1000 keys per call
+const R2_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Deletes any number of objects, in as many calls as R2 needs
+ */
+export async function deleteObjects(bucket: R2Bucket, keys: string[]) {
+	for (let i = 0; i < keys.length; i += R2_DELETE_BATCH_SIZE) {
+		await bucket.delete(keys.slice(i, i + R2_DELETE_BATCH_SIZE));
+	}
+}
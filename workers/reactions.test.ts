@@ -0,0 +1,28 @@
+import { describe, expect, test } from "bun:test";
+import { REACTION_NAMES, isReactionName } from "./reactions";
+
+describe("isReactionName", () => {
+	test("accepts every reaction", () => {
+		for (const name of REACTION_NAMES) {
+			expect(isReactionName(name)).toBe(true);
+		}
+	});
+
+	test("rejects keys inherited from Object.prototype", () => {
+		for (const name of [
+			"constructor",
+			"__proto__",
+			"toString",
+			"hasOwnProperty",
+		]) {
+			expect(isReactionName(name)).toBe(false);
+		}
+	});
+
+	test("rejects unknown names and non-strings", () => {
+		expect(isReactionName("dislike")).toBe(false);
+		expect(isReactionName("")).toBe(false);
+		expect(isReactionName(undefined)).toBe(false);
+		expect(isReactionName(1)).toBe(false);
+	});
+});
@@ -0,0 +1,19 @@
+/**
+ * Reactions users can add to posts, keyed by the name stored in the database
+ */
+export const REACTIONS = {
+	like: "👍",
+	love: "❤️",
+	laugh: "😂",
+	celebrate: "🎉",
+	wow: "😮",
+	sad: "😢",
+} as const;
+
+export type ReactionName = keyof typeof REACTIONS;
+
+export const REACTION_NAMES = Object.keys(REACTIONS) as ReactionName[];
+
+export function isReactionName(value: unknown): value is ReactionName {
+	return typeof value === "string" && Object.hasOwn(REACTIONS, value);
+}
@@ -0,0 +1,30 @@
+export const ADMIN_ROLE = "admin";
+
+/**
+ * better-auth stores multiple roles as a comma-separated string
+ */
+export function hasAdminRole(role: string | null | undefined) {
+	return (role ?? "").split(",").includes(ADMIN_ROLE);
+}
+
+/**
+ * The signed-in user acting on a resource
+ */
+export type Actor = {
+	id: string;
+	role?: string | null;
+};
+
+/**
+ * Only authors can edit their posts, admins included
+ */
+export function canEditContent(actor: Actor, authorId: string) {
+	return actor.id === authorId;
+}
+
+/**
+ * Authors can delete their own posts and comments; admins can delete anyone's
+ */
+export function canDeleteContent(actor: Actor, authorId: string) {
+	return actor.id === authorId || hasAdminRole(actor.role);
+}
@@ -0,0 +1,206 @@
+import {
+	authAdminSchema,
+	getCloudflareSecondaryStorage,
+} from "@portcityai/better-auth";
+import { and, eq, inArray, lte, or, sql } from "drizzle-orm";
+import {
+	accountDeletions,
+	attachments,
+	auditLog,
+	dataExports,
+	emailEvents,
+	emailOutbox,
+} from "../../api/database/schema";
+import { deleteObjects } from "../r2";
+import type { AppType, DatabaseClient } from "../types";
+import { recordAuditEvent } from "./audit";
+import { signUrl, verifySignedUrl } from "./signed-urls";
+
+/** Time between asking for deletion and the account being purged */
+export const ACCOUNT_DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+
+export type AccountDeletion = typeof accountDeletions.$inferSelect;
+
+export async function getAccountDeletion(db: DatabaseClient, userId: string) {
+	const [row] = await db
+		.select()
+		.from(accountDeletions)
+		.where(eq(accountDeletions.userId, userId));
+	return row ?? null;
+}
+
+/**
+ * Schedules the account for deletion once the grace period has passed.
+ * Asking again keeps the original date.
+ */
+export async function scheduleAccountDeletion(
+	db: DatabaseClient,
+	userId: string,
+): Promise<AccountDeletion> {
+	const requestedAt = new Date();
+	await db
+		.insert(accountDeletions)
+		.values({
+			userId,
+			requestedAt,
+			scheduledFor: new Date(requestedAt.getTime() + ACCOUNT_DELETION_GRACE_MS),
+		})
+		.onConflictDoNothing()
+		.run();
+	return (await getAccountDeletion(db, userId)) as AccountDeletion;
+}
+
+/**
+ * @returns whether a deletion was pending
+ */
+export async function cancelAccountDeletion(
+	db: DatabaseClient,
+	userId: string,
+) {
+	const deleted = await db
+		.delete(accountDeletions)
+		.where(eq(accountDeletions.userId, userId))
+		.returning({ userId: accountDeletions.userId });
+	return deleted.length > 0;
+}
+
+/**
+ * A link that cancels the deletion without signing in, valid until the
+ * account is purged
+ */
+export function signCancelDeletionUrl(
+	env: AppType["Bindings"],
+	origin: string,
+	deletion: AccountDeletion,
+) {
+	return signUrl(
+		env,
+		`${origin}/account/cancel-deletion/${deletion.userId}`,
+		`cancel-deletion:${deletion.userId}`,
+		deletion.scheduledFor,
+	);
+}
+
+export function verifyCancelDeletionUrl(
+	env: AppType["Bindings"],
+	userId: string,
+	url: URL,
+) {
+	return verifySignedUrl(
+		env,
+		`cancel-deletion:${userId}`,
+		url.searchParams.get("expires"),
+		url.searchParams.get("signature"),
+	);
+}
+
+/**
+ * Removes a user and everything that belongs to them. Every table that
+ * references `user.id` is handled:
+ *
+ * - session: KV entries are deleted here, rows cascade
+ * - account, terms_acceptance, posts, comments, reactions, notifications,
+ *   attachments, data_exports, account_deletions: rows cascade; the R2
+ *   objects behind attachments and exports are deleted here
+ * - audit_log: kept as a record of what happened, but anonymized. The user
+ *   ids are nulled by the foreign keys and the IP address, user agent and
+ *   metadata (which can hold the email address) are cleared here. The
+ *   deletion itself is logged without saying whose account it was.
+ * - email_outbox, email_events: keyed by address rather than user id;
+ *   rows for the account's address are deleted here. A suppression of the
+ *   address is kept, so a purged account's bounces stay stopped.
+ */
+export async function purgeAccount(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	userId: string,
+) {
+	const { user, session } = authAdminSchema;
+	const [account] = await db
+		.select({ email: user.email })
+		.from(user)
+		.where(eq(user.id, userId));
+	if (!account) {
+		return false;
+	}
+
+	const [sessions, uploads, exports] = await Promise.all([
+		db
+			.select({ token: session.token })
+			.from(session)
+			.where(eq(session.userId, userId)),
+		db
+			.select({ objectKey: attachments.objectKey })
+			.from(attachments)
+			.where(eq(attachments.ownerId, userId)),
+		db
+			.select({ objectKey: dataExports.objectKey })
+			.from(dataExports)
+			.where(eq(dataExports.userId, userId)),
+	]);
+
+	const storage = getCloudflareSecondaryStorage({ KV: env.SESSIONS });
+	await Promise.all([
+		...sessions.map(({ token }) => storage.delete(token)),
+		storage.delete(`active-sessions-${userId}`),
+	]);
+
+	const objectKeys = [...uploads, ...exports].flatMap(({ objectKey }) =>
+		objectKey ? [objectKey] : [],
+	);
+	await deleteObjects(env.UPLOADS, objectKeys);
+
+	await db.batch([
+		db
+			.update(auditLog)
+			.set({ ipAddress: null, userAgent: null, metadata: null })
+			.where(
+				or(
+					eq(auditLog.actorId, userId),
+					eq(auditLog.targetUserId, userId),
+					// Sign-in link and code requests are logged before there is a
+					// user id
+					and(
+						inArray(auditLog.event, [
+							"magic_link.requested",
+							"sign_in_code.requested",
+						]),
+						sql`json_extract(${auditLog.metadata}, '$.email') = ${account.email}`,
+					),
+				),
+			),
+		db.delete(emailEvents).where(eq(emailEvents.email, account.email)),
+		db.delete(emailOutbox).where(eq(emailOutbox.to, account.email)),
+		db.delete(user).where(eq(user.id, userId)),
+	]);
+	await recordAuditEvent(db, null, { type: "account.deleted" });
+	return true;
+}
+
+/**
+ * Purges every account whose grace period has ended
+ *
+ * @returns the ids of the purged users
+ */
+export async function purgeDueAccountDeletions(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+) {
+	const due = await db
+		.select({ userId: accountDeletions.userId })
+		.from(accountDeletions)
+		.where(lte(accountDeletions.scheduledFor, new Date()));
+
+	const purged: string[] = [];
+	for (const { userId } of due) {
+		try {
+			if (await purgeAccount(env, db, userId)) {
+				purged.push(userId);
+			}
+		} catch (error) {
+			// Left scheduled, so the next run tries again
+			console.error("Failed to purge account:", userId, error);
+		}
+	}
+	return purged;
+}
@@ -0,0 +1,394 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { attachments } from "../../api/database/schema";
+import type { AppType, DatabaseClient } from "../types";
+import { type AttachmentKind, UPLOAD_RULES } from "../uploads";
+import { signUrl, verifySignedUrl } from "./signed-urls";
+
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+export type Attachment = typeof attachments.$inferSelect;
+
+export type SerializedAttachment = {
+	id: string;
+	url: string;
+	fileName: string;
+	contentType: string;
+	size: number;
+};
+
+export class UploadError extends Error {
+	constructor(
+		message: string,
+		readonly status: 400 | 413 | 415,
+	) {
+		super(message);
+		this.name = "UploadError";
+	}
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+	return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+/**
+ * Works out a file's type from its first bytes, so a renamed executable
+ * can't pass as an image just by claiming to be one.
+ */
+function sniffContentType(head: Uint8Array): string | null {
+	if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return "image/png";
+	}
+	if (startsWith(head, [0xff, 0xd8, 0xff])) {
+		return "image/jpeg";
+	}
+	if (startsWith(head, [0x47, 0x49, 0x46, 0x38])) {
+		return "image/gif";
+	}
+	if (
+		startsWith(head, [0x52, 0x49, 0x46, 0x46]) &&
+		startsWith(head, [0x57, 0x45, 0x42, 0x50], 8)
+	) {
+		return "image/webp";
+	}
+	if (startsWith(head, [0x25, 0x50, 0x44, 0x46, 0x2d])) {
+		return "application/pdf";
+	}
+	return isPlainText(head) ? "text/plain" : null;
+}
+
+// Tab, line feed, form feed and carriage return; other control characters
+// mean the file is binary
+const TEXT_CONTROL_BYTES = new Set([0x09, 0x0a, 0x0c, 0x0d]);
+
+/**
+ * Plain text has no signature, so it has to be free of control characters
+ * and decode as UTF-8. Streaming the decode allows a character cut off at the
+ * end of `head`.
+ */
+function isPlainText(head: Uint8Array) {
+	if (
+		head.some(
+			(byte) => (byte < 0x20 && !TEXT_CONTROL_BYTES.has(byte)) || byte === 0x7f,
+		)
+	) {
+		return false;
+	}
+	try {
+		new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * A file as it arrives: the request body and what the client says about it
+ */
+export type IncomingUpload = {
+	fileName: string;
+	contentType: string;
+	size: number;
+	body: ReadableStream<Uint8Array>;
+};
+
+/**
+ * The file name sent with an upload, which is URI-encoded to fit in a header
+ */
+export function decodeFileName(header: string | undefined) {
+	try {
+		return decodeURIComponent(header ?? "");
+	} catch {
+		return "";
+	}
+}
+
+// Enough to recognise every signature, and to judge whether text is text
+const SNIFF_BYTES = 512;
+
+/**
+ * Reads the start of a stream without consuming it: the returned stream
+ * replays what was read, then continues with the rest of the original
+ */
+async function peekStream(stream: ReadableStream<Uint8Array>, length: number) {
+	const reader = stream.getReader();
+	const chunks: Uint8Array[] = [];
+	let read = 0;
+	while (read < length) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		chunks.push(value);
+		read += value.length;
+	}
+
+	const head = new Uint8Array(Math.min(read, length));
+	let offset = 0;
+	for (const chunk of chunks) {
+		if (offset >= head.length) {
+			break;
+		}
+		head.set(chunk.subarray(0, head.length - offset), offset);
+		offset += chunk.length;
+	}
+
+	const replayed = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(chunk);
+			}
+		},
+		async pull(controller) {
+			const { done, value } = await reader.read();
+			if (done) {
+				controller.close();
+			} else {
+				controller.enqueue(value);
+			}
+		},
+		cancel(reason) {
+			return reader.cancel(reason);
+		},
+	});
+	return { head, stream: replayed };
+}
+
+/**
+ * Checks an upload against the rules for its kind, using its declared size
+ * and type and its first bytes
+ *
+ * @returns the verified content type
+ */
+export function validateUpload(
+	kind: AttachmentKind,
+	{ size, contentType }: Pick<IncomingUpload, "size" | "contentType">,
+	head: Uint8Array,
+) {
+	const rules = UPLOAD_RULES[kind];
+	if (size === 0) {
+		throw new UploadError("The file is empty.", 400);
+	}
+	if (size > rules.maxBytes) {
+		throw new UploadError(
+			`Files must be at most ${Math.floor(rules.maxBytes / 1024 / 1024)} MB.`,
+			413,
+		);
+	}
+	const declared = contentType.split(";")[0].trim().toLowerCase();
+	const sniffed = sniffContentType(head);
+	if (!rules.contentTypes.includes(declared) || sniffed !== declared) {
+		throw new UploadError(
+			`This file type is not allowed. Allowed types: ${rules.contentTypes.join(", ")}.`,
+			415,
+		);
+	}
+	return declared;
+}
+
+/**
+ * Validates an upload, streams it to R2 and records its metadata. Only the
+ * first bytes are held in memory, for checking the type; a body that turns
+ * out longer or shorter than its declared size is refused.
+ */
+export async function storeUpload(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	ownerId: string,
+	kind: AttachmentKind,
+	upload: IncomingUpload,
+): Promise<Attachment> {
+	const { head, stream } = await peekStream(upload.body, SNIFF_BYTES);
+	let contentType: string;
+	try {
+		contentType = validateUpload(kind, upload, head);
+	} catch (error) {
+		await stream.cancel();
+		throw error;
+	}
+	const id = crypto.randomUUID();
+	const objectKey = `${kind}/${ownerId}/${id}`;
+	const fileName = upload.fileName.slice(0, 255) || "file";
+
+	// R2 needs to know the length of a streamed body up front
+	const { readable, writable } = new FixedLengthStream(upload.size);
+	let streamError: unknown = null;
+	const piping = stream.pipeTo(writable).catch((error) => {
+		streamError = error;
+	});
+	try {
+		await env.UPLOADS.put(objectKey, readable, {
+			httpMetadata: { contentType },
+			customMetadata: { ownerId, fileName },
+		});
+	} catch (error) {
+		await piping;
+		if (streamError) {
+			throw new UploadError(
+				"The upload did not match its declared size. Please try again.",
+				400,
+			);
+		}
+		throw error;
+	}
+	await piping;
+
+	const [attachment] = await db
+		.insert(attachments)
+		.values({
+			id,
+			ownerId,
+			kind,
+			visibility: UPLOAD_RULES[kind].visibility,
+			objectKey,
+			fileName,
+			contentType,
+			size: upload.size,
+			createdAt: new Date(),
+		})
+		.returning();
+	return attachment;
+}
+
+export async function getAttachment(db: DatabaseClient, id: string) {
+	const [attachment] = await db
+		.select()
+		.from(attachments)
+		.where(eq(attachments.id, id));
+	return attachment ?? null;
+}
+
+/**
+ * Attaches the author's own, not yet used post uploads to a post
+ */
+export async function attachToPost(
+	db: DatabaseClient,
+	ownerId: string,
+	postId: string,
+	ids: string[],
+) {
+	if (ids.length === 0) {
+		return;
+	}
+	await db
+		.update(attachments)
+		.set({ postId })
+		.where(
+			and(
+				inArray(attachments.id, ids),
+				eq(attachments.ownerId, ownerId),
+				eq(attachments.kind, "post"),
+				isNull(attachments.postId),
+			),
+		)
+		.run();
+}
+
+export async function listPostAttachments(
+	db: DatabaseClient,
+	postIds: string[],
+): Promise<Map<string, Attachment[]>> {
+	const byPost = new Map<string, Attachment[]>();
+	if (postIds.length === 0) {
+		return byPost;
+	}
+	const rows = await db
+		.select()
+		.from(attachments)
+		.where(inArray(attachments.postId, postIds))
+		.orderBy(attachments.createdAt);
+	for (const row of rows) {
+		if (row.postId) {
+			byPost.set(row.postId, [...(byPost.get(row.postId) ?? []), row]);
+		}
+	}
+	return byPost;
+}
+
+/**
+ * Builds a URL for a private attachment that works for `ttlSeconds`
+ */
+export function signAttachmentUrl(
+	env: AppType["Bindings"],
+	id: string,
+	ttlSeconds = SIGNED_URL_TTL_SECONDS,
+) {
+	return signUrl(
+		env,
+		`/api/files/${id}`,
+		id,
+		new Date(Date.now() + ttlSeconds * 1000),
+	);
+}
+
+export function verifyAttachmentSignature(
+	env: AppType["Bindings"],
+	id: string,
+	expires: string | undefined,
+	signature: string | undefined,
+) {
+	return verifySignedUrl(env, id, expires, signature);
+}
+
+export async function serializeAttachment(
+	env: AppType["Bindings"],
+	attachment: Attachment,
+): Promise<SerializedAttachment> {
+	return {
+		id: attachment.id,
+		url:
+			attachment.visibility === "public"
+				? `/api/files/${attachment.id}`
+				: await signAttachmentUrl(env, attachment.id),
+		fileName: attachment.fileName,
+		contentType: attachment.contentType,
+		size: attachment.size,
+	};
+}
+
+export type OpenedAttachment =
+	| { ok: true; attachment: Attachment; object: R2ObjectBody }
+	| { ok: false; status: 403 | 404; error: string };
+
+/**
+ * Loads an attachment and its stored object for serving. Private
+ * attachments also need the signature from their signed URL.
+ */
+export async function openAttachment(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	id: string,
+	{ expires, signature }: { expires?: string; signature?: string },
+): Promise<OpenedAttachment> {
+	const attachment = await getAttachment(db, id);
+	if (!attachment) {
+		return { ok: false, status: 404, error: "Not found" };
+	}
+	if (
+		attachment.visibility !== "public" &&
+		!(await verifyAttachmentSignature(env, id, expires, signature))
+	) {
+		return {
+			ok: false,
+			status: 403,
+			error: "This link is invalid or has expired",
+		};
+	}
+	const object = await env.UPLOADS.get(attachment.objectKey);
+	if (!object) {
+		return { ok: false, status: 404, error: "Not found" };
+	}
+	return { ok: true, attachment, object };
+}
+
+/**
+ * Uploads never change once stored, so public files are cached forever and
+ * private ones for as long as their signed URL is valid
+ */
+export function attachmentCacheControl(
+	attachment: Attachment,
+	expires: string | undefined,
+) {
+	return attachment.visibility === "public"
+		? "public, max-age=31536000, immutable"
+		: `private, max-age=${Math.max(0, Number(expires) - Math.floor(Date.now() / 1000))}, immutable`;
+}
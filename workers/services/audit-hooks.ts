@@ -0,0 +1,125 @@
+import type { BetterAuthOptions } from "better-auth";
+import {
+	APIError,
+	createAuthMiddleware,
+	getSessionFromCtx,
+} from "better-auth/api";
+import type { AuditEventType, RecordAuditEvent } from "./audit";
+
+/**
+ * Endpoints that end with a fresh session when they succeed
+ */
+const SIGN_IN_PATH_PREFIXES = ["/magic-link/verify", "/callback/", "/sign-in/"];
+
+/**
+ * Admin endpoints that act on the user given in `body.userId`
+ */
+const ADMIN_EVENTS: Record<string, AuditEventType> = {
+	"/admin/set-role": "user.role_changed",
+	"/admin/ban-user": "user.banned",
+	"/admin/unban-user": "user.unbanned",
+	"/admin/revoke-user-sessions": "user.sessions_revoked",
+	"/admin/impersonate-user": "impersonation.started",
+};
+
+/**
+ * Endpoints a user calls to end their own sessions, with what they end
+ */
+const SESSION_REVOCATIONS: Record<string, "one" | "others" | "all"> = {
+	"/revoke-session": "one",
+	"/revoke-other-sessions": "others",
+	"/revoke-sessions": "all",
+};
+
+function failed(returned: unknown) {
+	return returned instanceof APIError && returned.statusCode >= 400;
+}
+
+/**
+ * better-auth hooks that write sign-ins, sign-outs, session revocations, admin
+ * actions and impersonation to the audit log.
+ */
+export function createAuditHooks(
+	record: RecordAuditEvent,
+): NonNullable<BetterAuthOptions["hooks"]> {
+	return {
+		before: createAuthMiddleware(async (ctx) => {
+			if (
+				ctx.path !== "/sign-out" &&
+				ctx.path !== "/admin/stop-impersonating"
+			) {
+				return;
+			}
+
+			// Both endpoints end the current session, so look it up before they run
+			const session = await getSessionFromCtx(ctx);
+			if (!session) {
+				return;
+			}
+
+			if (ctx.path === "/sign-out") {
+				await record({
+					type: "auth.signed_out",
+					actorId: session.user.id,
+					targetUserId: session.user.id,
+					metadata: session.session.impersonatedBy
+						? { impersonatedBy: session.session.impersonatedBy }
+						: undefined,
+				});
+			} else if (session.session.impersonatedBy) {
+				await record({
+					type: "impersonation.stopped",
+					actorId: session.session.impersonatedBy,
+					targetUserId: session.user.id,
+				});
+			}
+		}),
+		after: createAuthMiddleware(async (ctx) => {
+			if (failed(ctx.context.returned)) {
+				return;
+			}
+
+			const adminEvent = ADMIN_EVENTS[ctx.path];
+			if (adminEvent) {
+				const { userId, role, banReason, banExpiresIn } = ctx.body ?? {};
+				await record({
+					type: adminEvent,
+					actorId: ctx.context.session?.user.id,
+					targetUserId: userId,
+					metadata:
+						adminEvent === "user.role_changed"
+							? { role }
+							: adminEvent === "user.banned"
+								? { banReason, banExpiresIn }
+								: undefined,
+				});
+				return;
+			}
+
+			const revoked = SESSION_REVOCATIONS[ctx.path];
+			if (revoked) {
+				const userId = ctx.context.session?.user.id;
+				await record({
+					type: "auth.session_revoked",
+					actorId: userId,
+					targetUserId: userId,
+					metadata: { scope: revoked },
+				});
+				return;
+			}
+
+			const newSession = ctx.context.newSession;
+			if (
+				newSession &&
+				SIGN_IN_PATH_PREFIXES.some((prefix) => ctx.path.startsWith(prefix))
+			) {
+				await record({
+					type: "auth.signed_in",
+					actorId: newSession.user.id,
+					targetUserId: newSession.user.id,
+					metadata: { method: ctx.params?.id ?? ctx.path },
+				});
+			}
+		}),
+	};
+}
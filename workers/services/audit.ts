@@ -0,0 +1,86 @@
+import { auditLog } from "../../api/database/schema";
+import type { DatabaseClient } from "../types";
+
+export const AUDIT_EVENT_TYPES = [
+	"magic_link.requested",
+	"sign_in_code.requested",
+	"auth.signed_in",
+	"auth.signed_out",
+	"auth.session_revoked",
+	"user.role_changed",
+	"user.banned",
+	"user.unbanned",
+	"user.sessions_revoked",
+	"impersonation.started",
+	"impersonation.stopped",
+	"data_export.requested",
+	"account.deletion_requested",
+	"account.deletion_cancelled",
+	"account.deleted",
+] as const;
+
+export type AuditEventType = (typeof AUDIT_EVENT_TYPES)[number];
+
+export type AuditEvent = {
+	type: AuditEventType;
+	/** The user who performed the action, if known */
+	actorId?: string | null;
+	/** The user the action was performed on */
+	targetUserId?: string | null;
+	metadata?: Record<string, unknown>;
+};
+
+export type RecordAuditEvent = (event: AuditEvent) => Promise<void>;
+
+export function isAuditEventType(value: string): value is AuditEventType {
+	return (AUDIT_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+export function getClientIp(request: Request) {
+	return (
+		request.headers.get("CF-Connecting-IP") ||
+		request.headers.get("X-Forwarded-For") ||
+		null
+	);
+}
+
+/**
+ * Appends an event to the audit log, capturing the caller's IP address and
+ * user agent from the request. Scheduled jobs have no request.
+ */
+export async function recordAuditEvent(
+	db: DatabaseClient,
+	request: Request | null,
+	event: AuditEvent,
+) {
+	await db
+		.insert(auditLog)
+		.values({
+			id: crypto.randomUUID(),
+			event: event.type,
+			actorId: event.actorId ?? null,
+			targetUserId: event.targetUserId ?? null,
+			metadata: event.metadata ?? null,
+			ipAddress: request && getClientIp(request),
+			userAgent: request?.headers.get("User-Agent") ?? null,
+			createdAt: new Date(),
+		})
+		.run();
+}
+
+/**
+ * Binds `recordAuditEvent` to a database and request. Failures are logged
+ * rather than thrown so a broken audit write never fails the audited action.
+ */
+export function createAuditRecorder(
+	db: DatabaseClient,
+	request: Request,
+): RecordAuditEvent {
+	return async (event) => {
+		try {
+			await recordAuditEvent(db, request, event);
+		} catch (error) {
+			console.error("Failed to record audit event:", event.type, error);
+		}
+	};
+}
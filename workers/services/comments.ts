@@ -0,0 +1,238 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { comments, posts } from "../../api/database/schema";
+import { type Actor, canDeleteContent } from "../roles";
+import type { DatabaseClient } from "../types";
+import { type NewNotification, createNotifications } from "./notifications";
+
+export const COMMENT_BODY_MAX_LENGTH = 2000;
+
+export type CommentErrors = Partial<Record<"body" | "form", string>>;
+
+export type SerializedComment = {
+	id: string;
+	parentId: string | null;
+	body: string;
+	createdAt: string;
+	author: { id: string; name: string; image: string | null };
+	canDelete: boolean;
+};
+
+export type CommentThread = SerializedComment & {
+	replies: SerializedComment[];
+};
+
+/**
+ * JSON body the comment list submits to its route action
+ */
+export type CommentMutation =
+	| { intent: "create"; body: string; parentId?: string | null }
+	| { intent: "delete"; id: string };
+
+export type CommentActionResult =
+	| { ok: true; intent: CommentMutation["intent"]; id: string }
+	| {
+			ok: false;
+			intent: CommentMutation["intent"] | null;
+			errors: CommentErrors;
+	  };
+
+export function validateCommentBody(
+	value: unknown,
+): { success: true; data: string } | { success: false; errors: CommentErrors } {
+	const body = typeof value === "string" ? value.trim() : "";
+	if (!body) {
+		return { success: false, errors: { body: "Please write a comment." } };
+	}
+	if (body.length > COMMENT_BODY_MAX_LENGTH) {
+		return {
+			success: false,
+			errors: {
+				body: `Comment must be at most ${COMMENT_BODY_MAX_LENGTH} characters.`,
+			},
+		};
+	}
+	return { success: true, data: body };
+}
+
+/**
+ * Lists a post's comments oldest first, with replies grouped under the
+ * comment they answer. Only the post's author can list them, as the feed
+ * only shows the viewer's own posts.
+ *
+ * @returns null when the post does not exist or is not the viewer's
+ */
+export async function listCommentThreads(
+	db: DatabaseClient,
+	postId: string,
+	viewer: Actor,
+): Promise<CommentThread[] | null> {
+	const [post] = await db
+		.select({ id: posts.id })
+		.from(posts)
+		.where(
+			and(
+				eq(posts.id, postId),
+				eq(posts.authorId, viewer.id),
+				isNull(posts.deletedAt),
+			),
+		);
+	if (!post) {
+		return null;
+	}
+
+	const rows = await db
+		.select({
+			id: comments.id,
+			parentId: comments.parentId,
+			body: comments.body,
+			createdAt: comments.createdAt,
+			authorId: authAdminSchema.user.id,
+			authorName: authAdminSchema.user.name,
+			authorImage: authAdminSchema.user.image,
+		})
+		.from(comments)
+		.innerJoin(
+			authAdminSchema.user,
+			eq(comments.authorId, authAdminSchema.user.id),
+		)
+		.where(eq(comments.postId, postId))
+		.orderBy(asc(comments.createdAt), asc(comments.id));
+
+	const threads: CommentThread[] = [];
+	const byId = new Map<string, CommentThread>();
+	for (const row of rows) {
+		const comment: SerializedComment = {
+			id: row.id,
+			parentId: row.parentId,
+			body: row.body,
+			createdAt: row.createdAt.toISOString(),
+			author: {
+				id: row.authorId,
+				name: row.authorName,
+				image: row.authorImage,
+			},
+			canDelete: canDeleteContent(viewer, row.authorId),
+		};
+		const parent = row.parentId ? byId.get(row.parentId) : undefined;
+		if (parent) {
+			parent.replies.push(comment);
+		} else {
+			const thread = { ...comment, replies: [] };
+			threads.push(thread);
+			byId.set(thread.id, thread);
+		}
+	}
+	return threads;
+}
+
+/**
+ * Adds a comment to a post. Replies to a reply are attached to the top-level
+ * comment instead, keeping threads one level deep.
+ *
+ * @returns the new comment's id and the post's updated comment count, or
+ * `null` if the post or parent comment does not exist
+ */
+export async function createComment(
+	db: DatabaseClient,
+	authorId: string,
+	input: { postId: string; parentId?: string | null; body: string },
+): Promise<{
+	id: string;
+	parentId: string | null;
+	postAuthorId: string;
+	commentCount: number;
+} | null> {
+	const [post] = await db
+		.select({ id: posts.id, authorId: posts.authorId })
+		.from(posts)
+		.where(and(eq(posts.id, input.postId), isNull(posts.deletedAt)));
+	if (!post) {
+		return null;
+	}
+
+	let parentId: string | null = null;
+	let parentAuthorId: string | null = null;
+	if (input.parentId) {
+		const [parent] = await db
+			.select({
+				id: comments.id,
+				parentId: comments.parentId,
+				authorId: comments.authorId,
+			})
+			.from(comments)
+			.where(
+				and(eq(comments.id, input.parentId), eq(comments.postId, input.postId)),
+			);
+		if (!parent) {
+			return null;
+		}
+		parentId = parent.parentId ?? parent.id;
+		parentAuthorId = parent.authorId;
+	}
+
+	const id = crypto.randomUUID();
+	await db
+		.insert(comments)
+		.values({
+			id,
+			postId: input.postId,
+			authorId,
+			parentId,
+			body: input.body,
+			createdAt: new Date(),
+		})
+		.run();
+
+	// Whoever wrote the comment being answered hears about the reply; the
+	// post's author hears about every comment unless that already covers them
+	const notify: NewNotification[] = [];
+	if (parentAuthorId) {
+		notify.push({
+			userId: parentAuthorId,
+			actorId: authorId,
+			type: "reply",
+			postId: input.postId,
+			commentId: id,
+		});
+	}
+	if (post.authorId !== parentAuthorId) {
+		notify.push({
+			userId: post.authorId,
+			actorId: authorId,
+			type: "comment",
+			postId: input.postId,
+			commentId: id,
+		});
+	}
+	await createNotifications(db, notify);
+
+	const [{ commentCount }] = await db
+		.select({ commentCount: posts.commentCount })
+		.from(posts)
+		.where(eq(posts.id, input.postId));
+	return { id, parentId, postAuthorId: post.authorId, commentCount };
+}
+
+/**
+ * Deletes a comment and its replies if the actor wrote it or is an admin
+ */
+export async function deleteComment(
+	db: DatabaseClient,
+	actor: Actor,
+	postId: string,
+	id: string,
+): Promise<"deleted" | "not_found" | "forbidden"> {
+	const [comment] = await db
+		.select({ authorId: comments.authorId })
+		.from(comments)
+		.where(and(eq(comments.id, id), eq(comments.postId, postId)));
+	if (!comment) {
+		return "not_found";
+	}
+	if (!canDeleteContent(actor, comment.authorId)) {
+		return "forbidden";
+	}
+	await db.delete(comments).where(eq(comments.id, id)).run();
+	return "deleted";
+}
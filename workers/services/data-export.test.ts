@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { authAdminSchema } from "@portcityai/better-auth";
+import { drizzle } from "drizzle-orm/d1";
+import { dataExports } from "../../api/database/schema";
+import { createTestD1 } from "../testing/d1";
+import type { AppType, DatabaseClient } from "../types";
+import { DATA_EXPORT_TTL_MS, purgeExpiredDataExports } from "./data-export";
+
+const USER_ID = "user-1";
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stand-in for the `UPLOADS` bucket that records each call to `delete`
+ */
+function createBucket() {
+	const deleteCalls: string[][] = [];
+	const bucket = {
+		delete: async (keys: string | string[]) => {
+			deleteCalls.push(Array.isArray(keys) ? keys : [keys]);
+		},
+	};
+	return { bucket: bucket as unknown as R2Bucket, deleteCalls };
+}
+
+let db: DatabaseClient;
+let env: AppType["Bindings"];
+let deleteCalls: string[][];
+
+beforeEach(async () => {
+	const d1 = createTestD1();
+	const uploads = createBucket();
+	deleteCalls = uploads.deleteCalls;
+	env = { DB: d1, UPLOADS: uploads.bucket } as AppType["Bindings"];
+	db = drizzle(d1);
+	await db
+		.insert(authAdminSchema.user)
+		.values({
+			id: USER_ID,
+			name: "Alice",
+			email: "alice@example.com",
+			emailVerified: true,
+			createdAt: new Date(),
+			updatedAt: new Date(),
+		})
+		.run();
+});
+
+async function insertExports(
+	count: number,
+	values: Partial<typeof dataExports.$inferInsert>,
+) {
+	const rows = Array.from({ length: count }, (_, index) => ({
+		id: `${values.status ?? "ready"}-${index}`,
+		userId: USER_ID,
+		format: "zip",
+		status: "ready",
+		createdAt: new Date(),
+		...values,
+	}));
+	// A few rows per statement, within D1's parameter limit
+	for (let i = 0; i < rows.length; i += 10) {
+		await db
+			.insert(dataExports)
+			.values(rows.slice(i, i + 10))
+			.run();
+	}
+}
+
+async function remainingIds() {
+	const rows = await db.select({ id: dataExports.id }).from(dataExports);
+	return rows.map((row) => row.id).sort();
+}
+
+describe("purgeExpiredDataExports", () => {
+	test("removes expired exports and their archives", async () => {
+		await insertExports(1, {
+			id: "expired",
+			objectKey: "exports/user-1/expired.zip",
+			expiresAt: new Date(Date.now() - 1000),
+		});
+		await insertExports(1, {
+			id: "current",
+			objectKey: "exports/user-1/current.zip",
+			expiresAt: new Date(Date.now() + DATA_EXPORT_TTL_MS),
+		});
+
+		expect(await purgeExpiredDataExports(env, db)).toBe(1);
+		expect(deleteCalls).toEqual([["exports/user-1/expired.zip"]]);
+		expect(await remainingIds()).toEqual(["current"]);
+	});
+
+	test("removes lost pending exports, including an unrecorded archive", async () => {
+		await insertExports(1, {
+			id: "lost",
+			status: "pending",
+			format: "json",
+			createdAt: new Date(Date.now() - 2 * HOUR_MS),
+		});
+		await insertExports(1, { id: "running", status: "pending" });
+
+		expect(await purgeExpiredDataExports(env, db)).toBe(1);
+		expect(deleteCalls).toEqual([["exports/user-1/lost.json"]]);
+		expect(await remainingIds()).toEqual(["running"]);
+	});
+
+	test("purges more exports than D1 binds parameters for", async () => {
+		await insertExports(250, {
+			expiresAt: new Date(Date.now() - 1000),
+			objectKey: "archive",
+		});
+
+		expect(await purgeExpiredDataExports(env, db)).toBe(250);
+		expect(await remainingIds()).toEqual([]);
+		expect(deleteCalls.flat()).toHaveLength(250);
+		for (const keys of deleteCalls) {
+			expect(keys.length).toBeLessThan(100);
+		}
+	});
+});
@@ -0,0 +1,408 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { and, desc, eq, gt, inArray, lt, or } from "drizzle-orm";
+import {
+	attachments,
+	auditLog,
+	comments,
+	dataExports,
+	posts,
+	reactions,
+} from "../../api/database/schema";
+import { deleteObjects } from "../r2";
+import type { AppType, DatabaseClient } from "../types";
+import { type ZipEntry, createZip } from "../zip";
+import type { EmailRecipient } from "./email";
+import { createEmailService } from "./email-providers";
+import { signUrl, verifySignedUrl } from "./signed-urls";
+
+export const DATA_EXPORT_FORMATS = ["zip", "json"] as const;
+
+export type DataExportFormat = (typeof DATA_EXPORT_FORMATS)[number];
+
+export type DataExportStatus = "pending" | "ready" | "failed";
+
+/** How long a finished export can be downloaded before it is removed */
+export const DATA_EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// An export still pending after this is assumed lost, e.g. to a worker
+// restart: it no longer blocks a new request and is purged
+const PENDING_TIMEOUT_MS = 60 * 60 * 1000;
+
+export type DataExport = typeof dataExports.$inferSelect;
+
+export type SerializedDataExport = {
+	id: string;
+	format: DataExportFormat;
+	status: DataExportStatus;
+	size: number | null;
+	createdAt: string;
+	expiresAt: string | null;
+	downloadUrl: string | null;
+};
+
+export function isDataExportFormat(value: unknown): value is DataExportFormat {
+	return (
+		typeof value === "string" &&
+		(DATA_EXPORT_FORMATS as readonly string[]).includes(value)
+	);
+}
+
+/**
+ * Everything stored about a user, one section per table. Session tokens and
+ * the contents of uploaded files are left out.
+ */
+async function collectUserData(db: DatabaseClient, userId: string) {
+	const { user, session, account, termsAcceptance } = authAdminSchema;
+	const [profile] = await db
+		.select({
+			id: user.id,
+			name: user.name,
+			email: user.email,
+			emailVerified: user.emailVerified,
+			image: user.image,
+			role: user.role,
+			createdAt: user.createdAt,
+			updatedAt: user.updatedAt,
+		})
+		.from(user)
+		.where(eq(user.id, userId));
+
+	const [
+		userPosts,
+		userComments,
+		userReactions,
+		userAttachments,
+		sessions,
+		linkedAccounts,
+		termsAcceptances,
+		auditEvents,
+	] = await Promise.all([
+		db.select().from(posts).where(eq(posts.authorId, userId)),
+		db.select().from(comments).where(eq(comments.authorId, userId)),
+		db.select().from(reactions).where(eq(reactions.userId, userId)),
+		db
+			.select({
+				id: attachments.id,
+				postId: attachments.postId,
+				kind: attachments.kind,
+				fileName: attachments.fileName,
+				contentType: attachments.contentType,
+				size: attachments.size,
+				createdAt: attachments.createdAt,
+			})
+			.from(attachments)
+			.where(eq(attachments.ownerId, userId)),
+		db
+			.select({
+				id: session.id,
+				createdAt: session.createdAt,
+				updatedAt: session.updatedAt,
+				expiresAt: session.expiresAt,
+				ipAddress: session.ipAddress,
+				userAgent: session.userAgent,
+				country: session.country,
+				city: session.city,
+			})
+			.from(session)
+			.where(eq(session.userId, userId)),
+		db
+			.select({
+				providerId: account.providerId,
+				accountId: account.accountId,
+				createdAt: account.createdAt,
+			})
+			.from(account)
+			.where(eq(account.userId, userId)),
+		db.select().from(termsAcceptance).where(eq(termsAcceptance.userId, userId)),
+		db
+			.select()
+			.from(auditLog)
+			.where(
+				or(eq(auditLog.actorId, userId), eq(auditLog.targetUserId, userId)),
+			)
+			.orderBy(desc(auditLog.createdAt)),
+	]);
+
+	return {
+		user: profile ?? null,
+		posts: userPosts,
+		comments: userComments,
+		reactions: userReactions,
+		attachments: userAttachments,
+		sessions,
+		linkedAccounts,
+		termsAcceptances,
+		auditEvents,
+	};
+}
+
+function exportObjectKey(
+	dataExport: Pick<DataExport, "id" | "userId">,
+	format: DataExportFormat,
+) {
+	return `exports/${dataExport.userId}/${dataExport.id}.${format}`;
+}
+
+function buildArchive(
+	format: DataExportFormat,
+	data: Awaited<ReturnType<typeof collectUserData>>,
+	exportedAt: Date,
+) {
+	const encoder = new TextEncoder();
+	if (format === "json") {
+		return encoder.encode(JSON.stringify({ exportedAt, ...data }, null, 2));
+	}
+	const entries: ZipEntry[] = Object.entries(data).map(([section, rows]) => ({
+		name: `${section}.json`,
+		data: encoder.encode(JSON.stringify(rows, null, 2)),
+	}));
+	return createZip(entries, exportedAt);
+}
+
+/**
+ * Queues an export for the user, unless one is already being generated
+ */
+export async function requestDataExport(
+	db: DatabaseClient,
+	userId: string,
+	format: DataExportFormat,
+): Promise<DataExport | null> {
+	const [pending] = await db
+		.select({ id: dataExports.id })
+		.from(dataExports)
+		.where(
+			and(
+				eq(dataExports.userId, userId),
+				eq(dataExports.status, "pending"),
+				gt(dataExports.createdAt, new Date(Date.now() - PENDING_TIMEOUT_MS)),
+			),
+		);
+	if (pending) {
+		return null;
+	}
+
+	const [created] = await db
+		.insert(dataExports)
+		.values({
+			id: crypto.randomUUID(),
+			userId,
+			format,
+			status: "pending",
+			createdAt: new Date(),
+		})
+		.returning();
+	return created;
+}
+
+/**
+ * Collects the user's data, writes the archive to R2 and marks the export
+ * ready. Runs after the response has been sent, so failures are recorded on
+ * the export instead of being thrown.
+ */
+export async function generateDataExport(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	dataExport: DataExport,
+): Promise<DataExport | null> {
+	try {
+		const completedAt = new Date();
+		const format = isDataExportFormat(dataExport.format)
+			? dataExport.format
+			: "zip";
+		const archive = buildArchive(
+			format,
+			await collectUserData(db, dataExport.userId),
+			completedAt,
+		);
+		const objectKey = exportObjectKey(dataExport, format);
+		await env.UPLOADS.put(objectKey, archive, {
+			httpMetadata: {
+				contentType: format === "zip" ? "application/zip" : "application/json",
+			},
+		});
+
+		const [ready] = await db
+			.update(dataExports)
+			.set({
+				status: "ready",
+				objectKey,
+				size: archive.length,
+				completedAt,
+				expiresAt: new Date(completedAt.getTime() + DATA_EXPORT_TTL_MS),
+			})
+			.where(eq(dataExports.id, dataExport.id))
+			.returning();
+		return ready ?? null;
+	} catch (error) {
+		console.error("Failed to generate data export:", dataExport.id, error);
+		const failedAt = new Date();
+		await db
+			.update(dataExports)
+			.set({
+				status: "failed",
+				completedAt: failedAt,
+				expiresAt: new Date(failedAt.getTime() + DATA_EXPORT_TTL_MS),
+			})
+			.where(eq(dataExports.id, dataExport.id))
+			.run();
+		return null;
+	}
+}
+
+/**
+ * Generates the export and emails the user a download link once it is ready,
+ * in the language of the request that asked for it
+ */
+export async function deliverDataExport(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	dataExport: DataExport,
+	{ email, locale, origin }: EmailRecipient & { origin: string },
+) {
+	const ready = await generateDataExport(env, db, dataExport);
+	if (!ready?.expiresAt) {
+		return;
+	}
+	const result = await createEmailService(env).sendDataExportReady({
+		email,
+		locale,
+		url: await signDataExportUrl(env, ready, origin),
+		expiresAt: ready.expiresAt,
+	});
+	if (!result.success) {
+		// The link is still shown in settings
+		console.error("Failed to send data export email:", result.error);
+	}
+}
+
+/**
+ * A download link that works until the export expires
+ */
+export function signDataExportUrl(
+	env: AppType["Bindings"],
+	dataExport: Pick<DataExport, "id" | "expiresAt">,
+	origin = "",
+) {
+	return signUrl(
+		env,
+		`${origin}/api/exports/${dataExport.id}`,
+		`export:${dataExport.id}`,
+		dataExport.expiresAt ?? new Date(),
+	);
+}
+
+export async function listDataExports(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	userId: string,
+): Promise<SerializedDataExport[]> {
+	const rows = await db
+		.select()
+		.from(dataExports)
+		.where(eq(dataExports.userId, userId))
+		.orderBy(desc(dataExports.createdAt))
+		.limit(10);
+
+	const now = Date.now();
+	return Promise.all(
+		rows.map(async (row) => ({
+			id: row.id,
+			format: isDataExportFormat(row.format) ? row.format : "zip",
+			status: row.status as DataExportStatus,
+			size: row.size,
+			createdAt: row.createdAt.toISOString(),
+			expiresAt: row.expiresAt?.toISOString() ?? null,
+			downloadUrl:
+				row.status === "ready" && row.expiresAt && row.expiresAt.getTime() > now
+					? await signDataExportUrl(env, row)
+					: null,
+		})),
+	);
+}
+
+/**
+ * Loads a finished export and its archive for a signed download link
+ */
+export async function openDataExport(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	id: string,
+	{ expires, signature }: { expires?: string; signature?: string },
+) {
+	if (!(await verifySignedUrl(env, `export:${id}`, expires, signature))) {
+		return null;
+	}
+	const [row] = await db
+		.select()
+		.from(dataExports)
+		.where(and(eq(dataExports.id, id), eq(dataExports.status, "ready")));
+	if (!row?.objectKey) {
+		return null;
+	}
+	const object = await env.UPLOADS.get(row.objectKey);
+	return object ? { dataExport: row, object } : null;
+}
+
+// D1 binds at most 100 parameters per statement
+const PURGE_BATCH_SIZE = 99;
+
+/**
+ * Removes expired archives from R2 along with their export records. Exports
+ * that never finished are removed once they count as lost.
+ */
+export async function purgeExpiredDataExports(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+) {
+	const now = Date.now();
+	let purged = 0;
+	for (;;) {
+		const expired = await db
+			.select({
+				id: dataExports.id,
+				userId: dataExports.userId,
+				format: dataExports.format,
+				objectKey: dataExports.objectKey,
+			})
+			.from(dataExports)
+			.where(
+				or(
+					lt(dataExports.expiresAt, new Date(now)),
+					and(
+						eq(dataExports.status, "pending"),
+						lt(dataExports.createdAt, new Date(now - PENDING_TIMEOUT_MS)),
+					),
+				),
+			)
+			.limit(PURGE_BATCH_SIZE);
+		if (expired.length === 0) {
+			break;
+		}
+		// A lost export may have written its archive without recording the key
+		await deleteObjects(
+			env.UPLOADS,
+			expired.map(
+				(row) =>
+					row.objectKey ??
+					exportObjectKey(
+						row,
+						isDataExportFormat(row.format) ? row.format : "zip",
+					),
+			),
+		);
+		await db
+			.delete(dataExports)
+			.where(
+				inArray(
+					dataExports.id,
+					expired.map((row) => row.id),
+				),
+			)
+			.run();
+		purged += expired.length;
+		if (expired.length < PURGE_BATCH_SIZE) {
+			break;
+		}
+	}
+	return purged;
+}
@@ -0,0 +1,119 @@
+import type { OutboundEmail } from "./email";
+
+/**
+ * Email captured by `MockEmailService` in development, kept in KV for a day
+ */
+export type MailboxMessage = {
+	id: string;
+	to: string;
+	template: string;
+	subject: string;
+	html: string;
+	text: string;
+	link: string | null;
+	createdAt: string;
+};
+
+export type MailboxSummary = Pick<
+	MailboxMessage,
+	"id" | "to" | "template" | "subject" | "createdAt"
+>;
+
+// An index entry per message, whose metadata is enough to list it
+const INDEX_PREFIX = "dev-mailbox:";
+const MESSAGE_PREFIX = "dev-mailbox-message:";
+const LATEST_PREFIX = "dev-mailbox-latest:";
+const MAILBOX_TTL_SECONDS = 24 * 60 * 60;
+
+// Keys sort by time descending, so a KV list returns the newest first
+function indexKey(id: string, createdAt: Date) {
+	const inverted = (Number.MAX_SAFE_INTEGER - createdAt.getTime())
+		.toString()
+		.padStart(16, "0");
+	return `${INDEX_PREFIX}${inverted}:${id}`;
+}
+
+function latestKey(to: string, template: string) {
+	return `${LATEST_PREFIX}${to.toLowerCase()}:${template}`;
+}
+
+export async function storeMailboxMessage(
+	kv: KVNamespace,
+	email: OutboundEmail,
+): Promise<MailboxMessage> {
+	const createdAt = new Date();
+	const message: MailboxMessage = {
+		id: crypto.randomUUID(),
+		to: email.to.toLowerCase(),
+		template: email.template,
+		subject: email.subject,
+		html: email.html,
+		text: email.text,
+		link: email.link ?? null,
+		createdAt: createdAt.toISOString(),
+	};
+	const summary: MailboxSummary = {
+		id: message.id,
+		to: message.to,
+		template: message.template,
+		subject: message.subject,
+		createdAt: message.createdAt,
+	};
+	const options = { expirationTtl: MAILBOX_TTL_SECONDS };
+	await Promise.all([
+		kv.put(`${MESSAGE_PREFIX}${message.id}`, JSON.stringify(message), options),
+		kv.put(indexKey(message.id, createdAt), "", {
+			...options,
+			metadata: summary,
+		}),
+		kv.put(latestKey(message.to, message.template), message.id, options),
+	]);
+	return message;
+}
+
+/**
+ * Newest first, optionally only those sent to `to`
+ */
+export async function listMailboxMessages(
+	kv: KVNamespace,
+	{ to, limit = 100 }: { to?: string; limit?: number } = {},
+) {
+	const { keys } = await kv.list<MailboxSummary>({
+		prefix: INDEX_PREFIX,
+		limit: 1000,
+	});
+	const recipient = to?.toLowerCase();
+	return keys
+		.flatMap(({ metadata }) =>
+			metadata && (!recipient || metadata.to === recipient) ? [metadata] : [],
+		)
+		.slice(0, limit);
+}
+
+export function getMailboxMessage(kv: KVNamespace, id: string) {
+	return kv.get<MailboxMessage>(`${MESSAGE_PREFIX}${id}`, "json");
+}
+
+/**
+ * The most recent message of a kind sent to an address, e.g. the magic link
+ * an end-to-end test is waiting for
+ */
+export async function getLatestMailboxMessage(
+	kv: KVNamespace,
+	to: string,
+	template: string,
+) {
+	const id = await kv.get(latestKey(to, template));
+	return id ? getMailboxMessage(kv, id) : null;
+}
+
+export async function clearMailbox(kv: KVNamespace) {
+	for (const prefix of [INDEX_PREFIX, MESSAGE_PREFIX, LATEST_PREFIX]) {
+		let cursor: string | undefined;
+		do {
+			const page = await kv.list({ prefix, cursor });
+			await Promise.all(page.keys.map(({ name }) => kv.delete(name)));
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
+	}
+}
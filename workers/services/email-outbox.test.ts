@@ -0,0 +1,326 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { eq } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/d1";
+import { emailOutbox } from "../../api/database/schema";
+import { createTestD1 } from "../testing/d1";
+import type { AppType } from "../types";
+import type { EmailResult, EmailSender, OutboundEmail } from "./email";
+import {
+	EMAIL_DEAD_LETTER_QUEUE,
+	type EmailQueueMessage,
+	processEmailDeadLetters,
+	processEmailQueue,
+	retryDelaySeconds,
+	sendThroughOutbox,
+} from "./email-outbox";
+
+const EMAIL: OutboundEmail = {
+	to: "alice@example.com",
+	template: "magic-link",
+	category: "authentication",
+	subject: "Sign in to your account",
+	html: "<a href='https://example.com/verify?token=secret'>Sign in</a>",
+	text: "https://example.com/verify?token=secret",
+};
+
+/**
+ * Stand-in for a provider that answers with the given results in turn, then
+ * keeps repeating the last one
+ */
+function createSender(...results: EmailResult[]) {
+	const delivered: OutboundEmail[] = [];
+	const sender: EmailSender = {
+		deliver: async (email) => {
+			delivered.push(email);
+			return results.length > 1 ? (results.shift() as EmailResult) : results[0];
+		},
+	};
+	return { sender, delivered };
+}
+
+const SENT: EmailResult = { success: true, messageId: "provider-1" };
+const FAILED: EmailResult = { success: false, error: "Provider unavailable" };
+
+/**
+ * Stand-in for the `EMAIL_QUEUE` binding that records what was sent
+ */
+function createQueue() {
+	const sent: { body: EmailQueueMessage; delaySeconds?: number }[] = [];
+	const queue = {
+		send: async (
+			body: EmailQueueMessage,
+			options?: QueueSendOptions,
+		): Promise<void> => {
+			sent.push({ body, delaySeconds: options?.delaySeconds });
+		},
+	};
+	return { queue: queue as unknown as Queue, sent };
+}
+
+/**
+ * A batch of messages for the given outbox entries that records how each
+ * one was settled
+ */
+function createBatch(queue: string, outboxIds: string[]) {
+	const settled = new Map<
+		string,
+		{ acked: boolean; retryDelaySeconds?: number }
+	>();
+	const messages = outboxIds.map((outboxId, index) => ({
+		id: `message-${index}`,
+		timestamp: new Date(),
+		attempts: 1,
+		body: { outboxId },
+		ack: () => settled.set(outboxId, { acked: true }),
+		retry: (options?: QueueRetryOptions) =>
+			settled.set(outboxId, {
+				acked: false,
+				retryDelaySeconds: options?.delaySeconds,
+			}),
+	}));
+	const batch = {
+		queue,
+		messages,
+		ackAll: () => {
+			for (const message of messages) {
+				message.ack();
+			}
+		},
+		retryAll: () => {
+			for (const message of messages) {
+				message.retry();
+			}
+		},
+	};
+	return {
+		batch: batch as unknown as MessageBatch<EmailQueueMessage>,
+		settled,
+	};
+}
+
+let env: AppType["Bindings"];
+let queued: ReturnType<typeof createQueue>["sent"];
+
+beforeEach(() => {
+	const { queue, sent } = createQueue();
+	queued = sent;
+	env = { DB: createTestD1(), EMAIL_QUEUE: queue } as AppType["Bindings"];
+});
+
+async function getEntry(id: string) {
+	const [entry] = await drizzle(env.DB)
+		.select()
+		.from(emailOutbox)
+		.where(eq(emailOutbox.id, id));
+	return entry;
+}
+
+async function onlyEntry() {
+	const entries = await drizzle(env.DB).select().from(emailOutbox);
+	expect(entries).toHaveLength(1);
+	return entries[0];
+}
+
+function inMinutes(minutes: number) {
+	return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+describe("sendThroughOutbox", () => {
+	test("delivers critical email straight away", async () => {
+		const { sender, delivered } = createSender(SENT);
+		const result = await sendThroughOutbox(env, sender, EMAIL, {
+			critical: true,
+			expiresAt: inMinutes(10),
+		});
+
+		expect(result).toEqual(SENT);
+		expect(delivered).toHaveLength(1);
+		expect(queued).toHaveLength(0);
+		const entry = await onlyEntry();
+		expect(entry.status).toBe("sent");
+		expect(entry.attempts).toBe(1);
+		expect(entry.providerMessageId).toBe("provider-1");
+		// The sign-in link is not kept once it has been delivered
+		expect(entry.html).toBe("");
+		expect(entry.text).toBe("");
+	});
+
+	test("queues critical email when the first attempt fails", async () => {
+		const { sender } = createSender(FAILED);
+		const result = await sendThroughOutbox(env, sender, EMAIL, {
+			critical: true,
+			expiresAt: inMinutes(10),
+		});
+
+		expect(result).toEqual({ success: true, queued: true });
+		const entry = await onlyEntry();
+		expect(entry.status).toBe("queued");
+		expect(entry.attempts).toBe(1);
+		expect(entry.lastError).toBe("Provider unavailable");
+		expect(entry.html).toBe(EMAIL.html);
+		expect(queued).toEqual([
+			{ body: { outboxId: entry.id }, delaySeconds: retryDelaySeconds(1) },
+		]);
+	});
+
+	test("queues other email without attempting it", async () => {
+		const { sender, delivered } = createSender(SENT);
+		const result = await sendThroughOutbox(env, sender, EMAIL);
+
+		expect(result).toEqual({ success: true, queued: true });
+		expect(delivered).toHaveLength(0);
+		const entry = await onlyEntry();
+		expect(entry.status).toBe("queued");
+		expect(queued).toEqual([
+			{ body: { outboxId: entry.id }, delaySeconds: undefined },
+		]);
+	});
+
+	test("keeps a message the consumer delivers before send returns", async () => {
+		const { sender } = createSender(SENT);
+		env.EMAIL_QUEUE = {
+			send: async (body: EmailQueueMessage) => {
+				const { batch } = createBatch("email-outbox", [body.outboxId]);
+				await processEmailQueue(batch, env, sender);
+			},
+		} as unknown as Queue;
+		await sendThroughOutbox(env, sender, EMAIL);
+
+		expect((await onlyEntry()).status).toBe("sent");
+	});
+
+	test("fails when the email cannot be queued", async () => {
+		const { sender } = createSender(FAILED);
+		env.EMAIL_QUEUE = {
+			send: async () => {
+				throw new Error("Queue unavailable");
+			},
+		} as unknown as Queue;
+		const result = await sendThroughOutbox(env, sender, EMAIL, {
+			critical: true,
+			expiresAt: inMinutes(10),
+		});
+
+		expect(result).toEqual({ success: false, error: "Queue unavailable" });
+		const entry = await onlyEntry();
+		expect(entry.status).toBe("failed");
+		expect(entry.html).toBe("");
+	});
+});
+
+describe("processEmailQueue", () => {
+	async function queueEmail(options?: {
+		critical?: boolean;
+		expiresAt?: Date;
+	}) {
+		await sendThroughOutbox(env, createSender(FAILED).sender, EMAIL, options);
+		return queued[queued.length - 1].body.outboxId;
+	}
+
+	test("delivers queued email", async () => {
+		const id = await queueEmail();
+		const { sender } = createSender(SENT);
+		const { batch, settled } = createBatch("email-outbox", [id]);
+		await processEmailQueue(batch, env, sender);
+
+		expect(settled.get(id)).toEqual({ acked: true });
+		const entry = await getEntry(id);
+		expect(entry.status).toBe("sent");
+		expect(entry.sentAt).toBeInstanceOf(Date);
+		// Only credential-carrying email has its body cleared
+		expect(entry.html).toBe(EMAIL.html);
+	});
+
+	test("retries failures with exponential backoff", async () => {
+		const id = await queueEmail();
+		const { sender } = createSender(FAILED);
+
+		for (const attempts of [1, 2, 3]) {
+			const { batch, settled } = createBatch("email-outbox", [id]);
+			await processEmailQueue(batch, env, sender);
+
+			expect(settled.get(id)).toEqual({
+				acked: false,
+				retryDelaySeconds: retryDelaySeconds(attempts),
+			});
+			expect((await getEntry(id)).attempts).toBe(attempts);
+		}
+		expect(
+			[1, 2, 3, 4, 10, 20].map((attempts) => retryDelaySeconds(attempts)),
+		).toEqual([30, 60, 120, 240, 3600, 3600]);
+	});
+
+	test("does not retry past the email's expiry", async () => {
+		const id = await queueEmail({ critical: true, expiresAt: inMinutes(0.25) });
+		const { sender } = createSender(FAILED);
+		const { batch, settled } = createBatch("email-outbox", [id]);
+		await processEmailQueue(batch, env, sender);
+
+		const delay = settled.get(id)?.retryDelaySeconds as number;
+		expect(delay).toBeLessThanOrEqual(15);
+		expect(delay).toBeLessThan(retryDelaySeconds(2));
+	});
+
+	test("gives up on expired email without sending it", async () => {
+		const id = await queueEmail({ critical: true, expiresAt: inMinutes(10) });
+		await drizzle(env.DB)
+			.update(emailOutbox)
+			.set({ expiresAt: inMinutes(-1) })
+			.where(eq(emailOutbox.id, id))
+			.run();
+		const { sender, delivered } = createSender(SENT);
+		const { batch, settled } = createBatch("email-outbox", [id]);
+		await processEmailQueue(batch, env, sender);
+
+		expect(delivered).toHaveLength(0);
+		expect(settled.get(id)).toEqual({ acked: true });
+		const entry = await getEntry(id);
+		expect(entry.status).toBe("failed");
+		expect(entry.lastError).toBe("Expired before it could be delivered");
+		expect(entry.html).toBe("");
+	});
+
+	test("acknowledges unknown and already delivered messages", async () => {
+		const id = await queueEmail();
+		await processEmailQueue(
+			createBatch("email-outbox", [id]).batch,
+			env,
+			createSender(SENT).sender,
+		);
+		const { sender, delivered } = createSender(SENT);
+		const { batch, settled } = createBatch("email-outbox", [id, "missing"]);
+		await processEmailQueue(batch, env, sender);
+
+		expect(delivered).toHaveLength(0);
+		expect(settled.get(id)).toEqual({ acked: true });
+		expect(settled.get("missing")).toEqual({ acked: true });
+	});
+});
+
+describe("processEmailDeadLetters", () => {
+	test("marks email that ran out of retries as failed", async () => {
+		const { sender } = createSender(FAILED);
+		await sendThroughOutbox(env, sender, EMAIL);
+		await sendThroughOutbox(env, sender, EMAIL, {
+			critical: true,
+			expiresAt: inMinutes(10),
+		});
+		const [plain, critical] = queued.map(({ body }) => body.outboxId);
+		const { batch, settled } = createBatch(EMAIL_DEAD_LETTER_QUEUE, [
+			plain,
+			critical,
+		]);
+		await processEmailDeadLetters(batch, env);
+
+		expect([...settled.values()]).toEqual([{ acked: true }, { acked: true }]);
+		const [plainEntry, criticalEntry] = await Promise.all([
+			getEntry(plain),
+			getEntry(critical),
+		]);
+		expect(plainEntry.status).toBe("failed");
+		expect(plainEntry.html).toBe(EMAIL.html);
+		expect(criticalEntry.status).toBe("failed");
+		expect(criticalEntry.html).toBe("");
+		expect(criticalEntry.text).toBe("");
+	});
+});
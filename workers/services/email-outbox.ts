@@ -0,0 +1,286 @@
+import { and, eq, inArray, lt, sql } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/d1";
+import { emailOutbox } from "../../api/database/schema";
+import type { AppType, DatabaseClient } from "../types";
+import type { EmailResult, EmailSender, OutboundEmail } from "./email";
+
+export type EmailQueueMessage = { outboxId: string };
+
+/** Must match the dead-letter queue in wrangler.jsonc */
+export const EMAIL_DEAD_LETTER_QUEUE = "email-outbox-dlq";
+
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+
+// Retries wait 30s, 1m, 2m, 4m… up to an hour; after `max_retries` in
+// wrangler.jsonc the message moves to the dead-letter queue
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 60 * 60;
+
+/** Delivered and failed messages are kept this long for troubleshooting */
+export const EMAIL_OUTBOX_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * How an email is sent. Critical email is attempted right away; email with
+ * an expiry carries a sign-in link or code that stops working at that time.
+ */
+export type OutboxOptions = { critical?: boolean; expiresAt?: Date };
+
+// Mail carrying a credential is only kept until it is settled
+const SETTLED_BODY = {
+	html: sql`iif(${emailOutbox.expiresAt} is null, ${emailOutbox.html}, '')`,
+	text: sql`iif(${emailOutbox.expiresAt} is null, ${emailOutbox.text}, '')`,
+};
+
+export function retryDelaySeconds(attempts: number) {
+	return Math.min(
+		RETRY_BASE_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0),
+		RETRY_MAX_DELAY_SECONDS,
+	);
+}
+
+function toOutboundEmail(entry: EmailOutboxEntry): OutboundEmail {
+	return {
+		to: entry.to,
+		template: entry.template,
+		category: entry.category,
+		subject: entry.subject,
+		html: entry.html,
+		text: entry.text,
+		headers: entry.headers ?? undefined,
+	};
+}
+
+/**
+ * Makes one delivery attempt and records the outcome on the outbox entry
+ */
+async function attemptDelivery(
+	db: DatabaseClient,
+	sender: EmailSender,
+	entry: EmailOutboxEntry,
+): Promise<EmailResult> {
+	let result: EmailResult;
+	try {
+		result = await sender.deliver(toOutboundEmail(entry));
+	} catch (error) {
+		result = {
+			success: false,
+			error: error instanceof Error ? error.message : "Unknown error",
+		};
+	}
+
+	const now = new Date();
+	await db
+		.update(emailOutbox)
+		.set(
+			result.success
+				? {
+						...SETTLED_BODY,
+						status: "sent",
+						attempts: entry.attempts + 1,
+						lastError: null,
+						providerMessageId: result.messageId ?? null,
+						sentAt: now,
+						updatedAt: now,
+					}
+				: {
+						attempts: entry.attempts + 1,
+						lastError: result.error ?? "Unknown error",
+						updatedAt: now,
+					},
+		)
+		.where(eq(emailOutbox.id, entry.id))
+		.run();
+	return result;
+}
+
+/**
+ * Records an email in the outbox and hands it to the email queue. Critical
+ * email, such as sign-in links the user is waiting for, is first attempted
+ * right away and only queued if that attempt fails.
+ *
+ * A queued email counts as sent: the consumer keeps retrying it, so a
+ * provider outage does not fail the request that triggered it. Email with an
+ * expiry is only retried until then.
+ */
+export async function sendThroughOutbox(
+	env: AppType["Bindings"],
+	sender: EmailSender,
+	email: OutboundEmail,
+	{ critical = false, expiresAt }: OutboxOptions = {},
+): Promise<EmailResult> {
+	const db = drizzle(env.DB);
+	const now = new Date();
+	const [entry] = await db
+		.insert(emailOutbox)
+		.values({
+			id: crypto.randomUUID(),
+			to: email.to,
+			template: email.template,
+			category: email.category,
+			subject: email.subject,
+			html: email.html,
+			text: email.text,
+			headers: email.headers ?? null,
+			status: "pending",
+			createdAt: now,
+			updatedAt: now,
+			expiresAt: expiresAt ?? null,
+		})
+		.returning();
+
+	if (critical) {
+		const result = await attemptDelivery(db, sender, entry);
+		if (result.success) {
+			return result;
+		}
+		console.warn(
+			"Queueing email after failed attempt:",
+			entry.id,
+			result.error,
+		);
+	}
+
+	// Marked before sending, since the consumer may deliver the message and
+	// mark it sent before `send` returns
+	await db
+		.update(emailOutbox)
+		.set({ status: "queued", updatedAt: new Date() })
+		.where(eq(emailOutbox.id, entry.id))
+		.run();
+	try {
+		await env.EMAIL_QUEUE.send(
+			{ outboxId: entry.id } satisfies EmailQueueMessage,
+			{
+				delaySeconds: critical ? nextRetryDelay(entry, 1) : undefined,
+			},
+		);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : "Unknown error";
+		await db
+			.update(emailOutbox)
+			.set({
+				...SETTLED_BODY,
+				status: "failed",
+				lastError: message,
+				updatedAt: new Date(),
+			})
+			.where(eq(emailOutbox.id, entry.id))
+			.run();
+		console.error("Failed to queue email:", entry.id, error);
+		return { success: false, error: message };
+	}
+	return { success: true, queued: true };
+}
+
+/**
+ * The backoff for the given attempt, cut short so the last retry happens
+ * before the email expires
+ */
+function nextRetryDelay(
+	entry: Pick<EmailOutboxEntry, "expiresAt">,
+	attempts: number,
+) {
+	const delay = retryDelaySeconds(attempts);
+	if (!entry.expiresAt) {
+		return delay;
+	}
+	const remaining = Math.ceil((entry.expiresAt.getTime() - Date.now()) / 1000);
+	return Math.max(Math.min(delay, remaining), 0);
+}
+
+async function findEntries(
+	db: DatabaseClient,
+	batch: MessageBatch<EmailQueueMessage>,
+) {
+	const ids = batch.messages.map((message) => message.body.outboxId);
+	const rows = ids.length
+		? await db.select().from(emailOutbox).where(inArray(emailOutbox.id, ids))
+		: [];
+	return new Map(rows.map((row) => [row.id, row]));
+}
+
+/**
+ * Queue consumer: delivers each message, retrying failures with exponential
+ * backoff
+ */
+export async function processEmailQueue(
+	batch: MessageBatch<EmailQueueMessage>,
+	env: AppType["Bindings"],
+	sender: EmailSender,
+) {
+	const db = drizzle(env.DB);
+	const entries = await findEntries(db, batch);
+
+	for (const message of batch.messages) {
+		const entry = entries.get(message.body.outboxId);
+		// Unknown or already settled, e.g. a redelivered message
+		if (!entry || entry.status === "sent" || entry.status === "failed") {
+			message.ack();
+			continue;
+		}
+		// The link or code inside no longer works, so don't send it late
+		if (entry.expiresAt && entry.expiresAt.getTime() <= Date.now()) {
+			await db
+				.update(emailOutbox)
+				.set({
+					...SETTLED_BODY,
+					status: "failed",
+					lastError: "Expired before it could be delivered",
+					updatedAt: new Date(),
+				})
+				.where(eq(emailOutbox.id, entry.id))
+				.run();
+			message.ack();
+			continue;
+		}
+		const result = await attemptDelivery(db, sender, entry);
+		if (result.success) {
+			message.ack();
+		} else {
+			message.retry({
+				delaySeconds: nextRetryDelay(entry, entry.attempts + 1),
+			});
+		}
+	}
+}
+
+/**
+ * Dead-letter consumer: marks messages that ran out of retries as failed
+ */
+export async function processEmailDeadLetters(
+	batch: MessageBatch<EmailQueueMessage>,
+	env: AppType["Bindings"],
+) {
+	const db = drizzle(env.DB);
+	const ids = batch.messages.map((message) => message.body.outboxId);
+	if (ids.length > 0) {
+		await db
+			.update(emailOutbox)
+			.set({ ...SETTLED_BODY, status: "failed", updatedAt: new Date() })
+			.where(
+				and(inArray(emailOutbox.id, ids), eq(emailOutbox.status, "queued")),
+			)
+			.run();
+		console.error("Giving up on emails:", ids);
+	}
+	batch.ackAll();
+}
+
+/**
+ * Removes delivered and failed outbox entries past the retention period
+ */
+export async function purgeEmailOutbox(db: DatabaseClient) {
+	const deleted = await db
+		.delete(emailOutbox)
+		.where(
+			and(
+				inArray(emailOutbox.status, ["sent", "failed"]),
+				lt(
+					emailOutbox.updatedAt,
+					new Date(Date.now() - EMAIL_OUTBOX_RETENTION_MS),
+				),
+			),
+		)
+		.returning({ id: emailOutbox.id });
+	return deleted.length;
+}
@@ -0,0 +1,330 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import type { AppType } from "../types";
+import { MockEmailService, type OutboundEmail } from "./email";
+import {
+	FailoverEmailService,
+	MailgunEmailService,
+	PostmarkEmailService,
+	SendGridEmailService,
+	createEmailProvider,
+	createEmailService,
+	usesMockEmail,
+} from "./email-providers";
+
+const EMAIL: OutboundEmail = {
+	to: "alice@example.com",
+	template: "welcome",
+	category: "account",
+	subject: "Welcome to Example",
+	html: "<p>Welcome</p>",
+	text: "Welcome",
+	headers: { "X-Entity-Ref-ID": "welcome-1" },
+};
+
+type RecordedRequest = {
+	method: string;
+	path: string;
+	headers: Headers;
+	body: string;
+};
+
+// A local stand-in for every provider's API. Each test says how a path
+// should answer; anything else is a 404.
+const requests: RecordedRequest[] = [];
+let responses: Record<string, () => Response> = {};
+
+const stub = Bun.serve({
+	port: 0,
+	async fetch(request) {
+		const { pathname } = new URL(request.url);
+		requests.push({
+			method: request.method,
+			path: pathname,
+			headers: request.headers,
+			body: await request.text(),
+		});
+		return (
+			responses[pathname]?.() ?? new Response("Not found", { status: 404 })
+		);
+	},
+});
+
+afterAll(() => stub.stop(true));
+
+beforeEach(() => {
+	requests.length = 0;
+	responses = {};
+});
+
+const POSTMARK_PATH = "/email";
+const SENDGRID_PATH = "/v3/mail/send";
+const MAILGUN_PATH = "/v3/mg.example.com/messages";
+
+function postmarkAccepts() {
+	return Response.json({ MessageID: "postmark-1" });
+}
+
+function sendGridAccepts() {
+	return new Response(null, {
+		status: 202,
+		headers: { "X-Message-Id": "sendgrid-1" },
+	});
+}
+
+function mailgunAccepts() {
+	return Response.json({ id: "<mailgun-1@mg.example.com>" });
+}
+
+function unavailable() {
+	return new Response("Service unavailable", { status: 503 });
+}
+
+// EMAIL_PROVIDERS is typed as the value in wrangler.jsonc
+type EnvOverrides = Partial<Omit<AppType["Bindings"], "EMAIL_PROVIDERS">> & {
+	EMAIL_PROVIDERS?: string;
+};
+
+function createEnv(overrides: EnvOverrides = {}) {
+	const baseUrl = stub.url.origin;
+	return {
+		FROM_EMAIL: "noreply@example.com",
+		FROM_NAME: "Example",
+		SUPPORT_EMAIL: "support@example.com",
+		EMAIL_PROVIDERS: "resend",
+		POSTMARK_SERVER_TOKEN: "postmark-token",
+		POSTMARK_API_URL: baseUrl,
+		SENDGRID_API_KEY: "sendgrid-key",
+		SENDGRID_API_URL: `${baseUrl}/`,
+		MAILGUN_API_KEY: "mailgun-key",
+		MAILGUN_DOMAIN: "mg.example.com",
+		MAILGUN_API_URL: baseUrl,
+		...overrides,
+	} as AppType["Bindings"];
+}
+
+describe("PostmarkEmailService", () => {
+	test("sends the email as JSON with the server token", async () => {
+		responses[POSTMARK_PATH] = postmarkAccepts;
+		const result = await new PostmarkEmailService(createEnv()).deliver(EMAIL);
+
+		expect(result).toEqual({ success: true, messageId: "postmark-1" });
+		expect(requests).toHaveLength(1);
+		const [request] = requests;
+		expect(request.method).toBe("POST");
+		expect(request.path).toBe(POSTMARK_PATH);
+		expect(request.headers.get("X-Postmark-Server-Token")).toBe(
+			"postmark-token",
+		);
+		expect(JSON.parse(request.body)).toMatchObject({
+			From: "Example <noreply@example.com>",
+			To: "alice@example.com",
+			Subject: "Welcome to Example",
+			HtmlBody: "<p>Welcome</p>",
+			TextBody: "Welcome",
+			Tag: "welcome",
+			Metadata: { category: "account" },
+			Headers: [{ Name: "X-Entity-Ref-ID", Value: "welcome-1" }],
+		});
+	});
+
+	test("reports the status and body of a rejected request", async () => {
+		responses[POSTMARK_PATH] = () =>
+			Response.json({ Message: "Invalid token" }, { status: 401 });
+		const result = await new PostmarkEmailService(createEnv()).deliver(EMAIL);
+
+		expect(result).toEqual({
+			success: false,
+			error: 'Postmark responded with 401: {"Message":"Invalid token"}',
+		});
+	});
+
+	test("requires a server token", () => {
+		expect(
+			() => new PostmarkEmailService(createEnv({ POSTMARK_SERVER_TOKEN: "" })),
+		).toThrow("POSTMARK_SERVER_TOKEN");
+	});
+});
+
+describe("SendGridEmailService", () => {
+	test("sends text before HTML and reads the id from the header", async () => {
+		responses[SENDGRID_PATH] = sendGridAccepts;
+		const result = await new SendGridEmailService(createEnv()).deliver(EMAIL);
+
+		expect(result).toEqual({ success: true, messageId: "sendgrid-1" });
+		const [request] = requests;
+		// The trailing slash of the base URL is not doubled
+		expect(request.path).toBe(SENDGRID_PATH);
+		expect(request.headers.get("Authorization")).toBe("Bearer sendgrid-key");
+		expect(JSON.parse(request.body)).toMatchObject({
+			personalizations: [{ to: [{ email: "alice@example.com" }] }],
+			from: { email: "noreply@example.com", name: "Example" },
+			content: [
+				{ type: "text/plain", value: "Welcome" },
+				{ type: "text/html", value: "<p>Welcome</p>" },
+			],
+			headers: { "X-Entity-Ref-ID": "welcome-1" },
+			categories: ["account", "welcome"],
+		});
+	});
+});
+
+describe("MailgunEmailService", () => {
+	test("sends a form to the domain's endpoint", async () => {
+		responses[MAILGUN_PATH] = mailgunAccepts;
+		const result = await new MailgunEmailService(createEnv()).deliver(EMAIL);
+
+		expect(result).toEqual({
+			success: true,
+			messageId: "<mailgun-1@mg.example.com>",
+		});
+		const [request] = requests;
+		expect(request.path).toBe(MAILGUN_PATH);
+		expect(request.headers.get("Authorization")).toBe(
+			`Basic ${btoa("api:mailgun-key")}`,
+		);
+		const form = await new Response(request.body, {
+			headers: { "Content-Type": request.headers.get("Content-Type") ?? "" },
+		}).formData();
+		expect(form.get("to")).toBe("alice@example.com");
+		expect(form.get("subject")).toBe("Welcome to Example");
+		expect(form.getAll("o:tag")).toEqual(["account", "welcome"]);
+		expect(form.get("h:X-Entity-Ref-ID")).toBe("welcome-1");
+	});
+
+	test("reports a provider that cannot be reached", async () => {
+		const result = await new MailgunEmailService(
+			createEnv({ MAILGUN_API_URL: "http://127.0.0.1:1" }),
+		).deliver(EMAIL);
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBeString();
+	});
+});
+
+describe("FailoverEmailService", () => {
+	function createFailover() {
+		const env = createEnv();
+		return new FailoverEmailService(env, [
+			["postmark", new PostmarkEmailService(env)],
+			["sendgrid", new SendGridEmailService(env)],
+			["mailgun", new MailgunEmailService(env)],
+		]);
+	}
+
+	test("stops at the first provider that accepts the email", async () => {
+		responses[POSTMARK_PATH] = unavailable;
+		responses[SENDGRID_PATH] = sendGridAccepts;
+		responses[MAILGUN_PATH] = mailgunAccepts;
+		const result = await createFailover().deliver(EMAIL);
+
+		expect(result).toEqual({ success: true, messageId: "sendgrid-1" });
+		expect(requests.map(({ path }) => path)).toEqual([
+			POSTMARK_PATH,
+			SENDGRID_PATH,
+		]);
+	});
+
+	test("fails with every provider's error when none accepts it", async () => {
+		responses[POSTMARK_PATH] = unavailable;
+		responses[SENDGRID_PATH] = unavailable;
+		responses[MAILGUN_PATH] = unavailable;
+		const result = await createFailover().deliver(EMAIL);
+
+		expect(result).toEqual({
+			success: false,
+			error: [
+				"postmark: Postmark responded with 503: Service unavailable",
+				"sendgrid: SendGrid responded with 503: Service unavailable",
+				"mailgun: Mailgun responded with 503: Service unavailable",
+			].join("; "),
+		});
+		expect(requests.map(({ path }) => path)).toEqual([
+			POSTMARK_PATH,
+			SENDGRID_PATH,
+			MAILGUN_PATH,
+		]);
+	});
+});
+
+describe("createEmailProvider", () => {
+	test("uses the only configured provider directly", () => {
+		const provider = createEmailProvider(
+			createEnv({ EMAIL_PROVIDERS: "sendgrid" }),
+		);
+
+		expect(provider).toBeInstanceOf(SendGridEmailService);
+	});
+
+	test("fails over between providers in the listed order", async () => {
+		responses[MAILGUN_PATH] = unavailable;
+		responses[POSTMARK_PATH] = postmarkAccepts;
+		const provider = createEmailProvider(
+			createEnv({ EMAIL_PROVIDERS: "mailgun,postmark" }),
+		);
+
+		expect(provider).toBeInstanceOf(FailoverEmailService);
+		expect(await provider?.deliver(EMAIL)).toEqual({
+			success: true,
+			messageId: "postmark-1",
+		});
+		expect(requests.map(({ path }) => path)).toEqual([
+			MAILGUN_PATH,
+			POSTMARK_PATH,
+		]);
+	});
+
+	test("ignores spacing, case, blanks and unknown names", async () => {
+		responses[SENDGRID_PATH] = unavailable;
+		responses[POSTMARK_PATH] = unavailable;
+		const provider = createEmailProvider(
+			createEnv({ EMAIL_PROVIDERS: " SendGrid , ,carrier-pigeon,Postmark" }),
+		);
+		const result = await provider?.deliver(EMAIL);
+
+		expect(result?.error).toStartWith("sendgrid: ");
+		expect(result?.error).toContain("; postmark: ");
+		expect(requests.map(({ path }) => path)).toEqual([
+			SENDGRID_PATH,
+			POSTMARK_PATH,
+		]);
+	});
+
+	test("skips providers that are not configured", () => {
+		const provider = createEmailProvider(
+			createEnv({
+				EMAIL_PROVIDERS: "postmark,mailgun",
+				MAILGUN_DOMAIN: "",
+			}),
+		);
+
+		expect(provider).toBeInstanceOf(PostmarkEmailService);
+	});
+
+	test("defaults to Resend", () => {
+		expect(createEmailProvider(createEnv())).toBeNull();
+		expect(
+			createEmailProvider(createEnv({ RESEND_API_KEY: "re_key" }))?.constructor
+				.name,
+		).toBe("ResendEmailService");
+	});
+
+	test("falls back to the mock when nothing is configured", () => {
+		const env = createEnv({ EMAIL_PROVIDERS: "postmark" });
+		env.POSTMARK_SERVER_TOKEN = "";
+
+		expect(createEmailProvider(env)).toBeNull();
+		expect(createEmailService(env)).toBeInstanceOf(MockEmailService);
+	});
+});
+
+describe("usesMockEmail", () => {
+	test("only when no listed provider is configured", () => {
+		expect(usesMockEmail(createEnv())).toBe(true);
+		expect(
+			usesMockEmail(createEnv({ EMAIL_PROVIDERS: "carrier-pigeon" })),
+		).toBe(true);
+		expect(
+			usesMockEmail(createEnv({ EMAIL_PROVIDERS: "resend,mailgun" })),
+		).toBe(false);
+	});
+});
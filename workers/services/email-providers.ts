@@ -0,0 +1,367 @@
+import { createMimeMessage } from "../mime";
+import type { AppType } from "../types";
+import {
+	type EmailResult,
+	type EmailService,
+	MockEmailService,
+	type OutboundEmail,
+	ResendEmailService,
+	TemplatedEmailService,
+} from "./email";
+
+function failure(error: unknown): EmailResult {
+	return {
+		success: false,
+		error: error instanceof Error ? error.message : String(error),
+	};
+}
+
+/**
+ * `path` on the provider's API, or on `baseUrl` when it is overridden, e.g.
+ * for a regional endpoint or a local stub
+ */
+function apiEndpoint(
+	baseUrl: string | undefined,
+	defaultBaseUrl: string,
+	path: string,
+) {
+	return `${(baseUrl || defaultBaseUrl).replace(/\/$/, "")}${path}`;
+}
+
+/**
+ * A provider with an HTTP API. Subclasses describe the request; sending and
+ * error handling are shared.
+ */
+abstract class HttpEmailService extends TemplatedEmailService {
+	protected abstract readonly providerName: string;
+
+	protected abstract buildRequest(email: OutboundEmail): Request;
+
+	protected abstract readMessageId(
+		response: Response,
+	): Promise<string | undefined>;
+
+	async deliver(email: OutboundEmail): Promise<EmailResult> {
+		try {
+			const response = await fetch(this.buildRequest(email));
+			if (!response.ok) {
+				const body = await response.text();
+				console.error(
+					`${this.providerName} email error:`,
+					response.status,
+					body,
+				);
+				return {
+					success: false,
+					error: `${this.providerName} responded with ${response.status}: ${body.slice(0, 200)}`,
+				};
+			}
+			return { success: true, messageId: await this.readMessageId(response) };
+		} catch (error) {
+			console.error("Email sending failed:", error);
+			return failure(error);
+		}
+	}
+}
+
+export class PostmarkEmailService extends HttpEmailService {
+	protected readonly providerName = "Postmark";
+	private token: string;
+	private endpoint: string;
+
+	constructor(env: AppType["Bindings"]) {
+		if (!env.POSTMARK_SERVER_TOKEN) {
+			throw new Error("POSTMARK_SERVER_TOKEN environment variable is required");
+		}
+		super(env);
+		this.token = env.POSTMARK_SERVER_TOKEN;
+		this.endpoint = apiEndpoint(
+			env.POSTMARK_API_URL,
+			"https://api.postmarkapp.com",
+			"/email",
+		);
+	}
+
+	protected buildRequest(email: OutboundEmail) {
+		return new Request(this.endpoint, {
+			method: "POST",
+			headers: {
+				Accept: "application/json",
+				"Content-Type": "application/json",
+				"X-Postmark-Server-Token": this.token,
+			},
+			body: JSON.stringify({
+				From: `${this.from.name} <${this.from.email}>`,
+				To: email.to,
+				Subject: email.subject,
+				HtmlBody: email.html,
+				TextBody: email.text,
+				Tag: email.template,
+				Metadata: { category: email.category },
+				Headers: Object.entries(email.headers ?? {}).map(([Name, Value]) => ({
+					Name,
+					Value,
+				})),
+				MessageStream: "outbound",
+			}),
+		});
+	}
+
+	protected async readMessageId(response: Response) {
+		const body = await response.json<{ MessageID?: string }>();
+		return body.MessageID;
+	}
+}
+
+export class SendGridEmailService extends HttpEmailService {
+	protected readonly providerName = "SendGrid";
+	private apiKey: string;
+	private endpoint: string;
+
+	constructor(env: AppType["Bindings"]) {
+		if (!env.SENDGRID_API_KEY) {
+			throw new Error("SENDGRID_API_KEY environment variable is required");
+		}
+		super(env);
+		this.apiKey = env.SENDGRID_API_KEY;
+		this.endpoint = apiEndpoint(
+			env.SENDGRID_API_URL,
+			"https://api.sendgrid.com",
+			"/v3/mail/send",
+		);
+	}
+
+	protected buildRequest(email: OutboundEmail) {
+		return new Request(this.endpoint, {
+			method: "POST",
+			headers: {
+				Authorization: `Bearer ${this.apiKey}`,
+				"Content-Type": "application/json",
+			},
+			body: JSON.stringify({
+				personalizations: [{ to: [{ email: email.to }] }],
+				from: { email: this.from.email, name: this.from.name },
+				subject: email.subject,
+				// SendGrid requires text before HTML
+				content: [
+					{ type: "text/plain", value: email.text },
+					{ type: "text/html", value: email.html },
+				],
+				headers: email.headers,
+				categories: [email.category, email.template],
+			}),
+		});
+	}
+
+	// The send endpoint answers 202 with an empty body
+	protected async readMessageId(response: Response) {
+		return response.headers.get("X-Message-Id") ?? undefined;
+	}
+}
+
+export class MailgunEmailService extends HttpEmailService {
+	protected readonly providerName = "Mailgun";
+	private apiKey: string;
+	private endpoint: string;
+
+	constructor(env: AppType["Bindings"]) {
+		if (!env.MAILGUN_API_KEY || !env.MAILGUN_DOMAIN) {
+			throw new Error(
+				"MAILGUN_API_KEY and MAILGUN_DOMAIN environment variables are required",
+			);
+		}
+		super(env);
+		this.apiKey = env.MAILGUN_API_KEY;
+		this.endpoint = apiEndpoint(
+			env.MAILGUN_API_URL,
+			"https://api.mailgun.net",
+			`/v3/${env.MAILGUN_DOMAIN}/messages`,
+		);
+	}
+
+	protected buildRequest(email: OutboundEmail) {
+		const form = new FormData();
+		form.set("from", `${this.from.name} <${this.from.email}>`);
+		form.set("to", email.to);
+		form.set("subject", email.subject);
+		form.set("text", email.text);
+		form.set("html", email.html);
+		form.append("o:tag", email.category);
+		form.append("o:tag", email.template);
+		for (const [name, value] of Object.entries(email.headers ?? {})) {
+			form.set(`h:${name}`, value);
+		}
+		return new Request(this.endpoint, {
+			method: "POST",
+			headers: { Authorization: `Basic ${btoa(`api:${this.apiKey}`)}` },
+			body: form,
+		});
+	}
+
+	protected async readMessageId(response: Response) {
+		const body = await response.json<{ id?: string }>();
+		return body.id;
+	}
+}
+
+/**
+ * Sends through Cloudflare Email Routing's `send_email` binding, which only
+ * delivers to verified destination addresses
+ */
+export class CloudflareEmailService extends TemplatedEmailService {
+	private binding: SendEmail;
+
+	constructor(env: AppType["Bindings"]) {
+		if (!env.EMAIL) {
+			throw new Error("The EMAIL send_email binding is required");
+		}
+		super(env);
+		this.binding = env.EMAIL;
+	}
+
+	async deliver(email: OutboundEmail): Promise<EmailResult> {
+		try {
+			const { raw, messageId } = createMimeMessage({
+				from: this.from,
+				to: email.to,
+				subject: email.subject,
+				text: email.text,
+				html: email.html,
+				headers: email.headers,
+			});
+			// Loaded here because the module only exists where a send_email
+			// binding is configured
+			const { EmailMessage } = await import("cloudflare:email");
+			await this.binding.send(new EmailMessage(this.from.email, email.to, raw));
+			return { success: true, messageId };
+		} catch (error) {
+			console.error("Email sending failed:", error);
+			return failure(error);
+		}
+	}
+}
+
+/**
+ * Tries each provider in order until one accepts the email
+ */
+export class FailoverEmailService extends TemplatedEmailService {
+	private providers: [name: string, provider: TemplatedEmailService][];
+
+	constructor(
+		env: AppType["Bindings"],
+		providers: [name: string, provider: TemplatedEmailService][],
+	) {
+		super(env);
+		this.providers = providers;
+	}
+
+	async deliver(email: OutboundEmail): Promise<EmailResult> {
+		const errors: string[] = [];
+		for (const [name, provider] of this.providers) {
+			const result = await provider.deliver(email);
+			if (result.success) {
+				return result;
+			}
+			console.warn(`Email provider ${name} failed:`, result.error);
+			errors.push(`${name}: ${result.error}`);
+		}
+		return { success: false, error: errors.join("; ") };
+	}
+}
+
+/**
+ * Each provider with the settings it needs before it can be used
+ */
+const EMAIL_PROVIDERS = {
+	resend: {
+		isConfigured: (env) => Boolean(env.RESEND_API_KEY),
+		create: (env) => new ResendEmailService(env),
+	},
+	postmark: {
+		isConfigured: (env) => Boolean(env.POSTMARK_SERVER_TOKEN),
+		create: (env) => new PostmarkEmailService(env),
+	},
+	sendgrid: {
+		isConfigured: (env) => Boolean(env.SENDGRID_API_KEY),
+		create: (env) => new SendGridEmailService(env),
+	},
+	mailgun: {
+		isConfigured: (env) => Boolean(env.MAILGUN_API_KEY && env.MAILGUN_DOMAIN),
+		create: (env) => new MailgunEmailService(env),
+	},
+	cloudflare: {
+		isConfigured: (env) => Boolean(env.EMAIL),
+		create: (env) => new CloudflareEmailService(env),
+	},
+} satisfies Record<
+	string,
+	{
+		isConfigured: (env: AppType["Bindings"]) => boolean;
+		create: (env: AppType["Bindings"]) => TemplatedEmailService;
+	}
+>;
+
+export type EmailProviderName = keyof typeof EMAIL_PROVIDERS;
+
+function isEmailProviderName(value: string): value is EmailProviderName {
+	return Object.hasOwn(EMAIL_PROVIDERS, value);
+}
+
+/**
+ * The providers listed in `EMAIL_PROVIDERS`, in order, skipping any that are
+ * not configured
+ */
+function configuredProviderNames(env: AppType["Bindings"]) {
+	const names: EmailProviderName[] = [];
+	for (const name of String(env.EMAIL_PROVIDERS || "resend").split(",")) {
+		const trimmed = name.trim().toLowerCase();
+		if (!trimmed) {
+			continue;
+		}
+		if (!isEmailProviderName(trimmed)) {
+			console.warn(`Unknown email provider "${trimmed}" in EMAIL_PROVIDERS`);
+			continue;
+		}
+		if (EMAIL_PROVIDERS[trimmed].isConfigured(env)) {
+			names.push(trimmed);
+		}
+	}
+	return names;
+}
+
+/**
+ * The configured providers, combined with failover when there are several.
+ * The email queue also delivers through this.
+ */
+export function createEmailProvider(
+	env: AppType["Bindings"],
+): TemplatedEmailService | null {
+	const providers = configuredProviderNames(env).map(
+		(name): [string, TemplatedEmailService] => [
+			name,
+			EMAIL_PROVIDERS[name].create(env),
+		],
+	);
+	if (providers.length === 0) {
+		return null;
+	}
+	return providers.length === 1
+		? providers[0][1]
+		: new FailoverEmailService(env, providers);
+}
+
+/**
+ * The configured providers, otherwise the mock, which keeps messages in
+ * the dev mailbox
+ */
+export function createEmailService(env: AppType["Bindings"]): EmailService {
+	return createEmailProvider(env) ?? new MockEmailService(env);
+}
+
+/**
+ * Whether email is kept in the dev mailbox instead of being sent, because
+ * no provider is configured
+ */
+export function usesMockEmail(env: AppType["Bindings"]) {
+	return configuredProviderNames(env).length === 0;
+}
@@ -0,0 +1,37 @@
+import { eq } from "drizzle-orm";
+import { emailSuppressions } from "../../api/database/schema";
+import type { DatabaseClient } from "../types";
+
+export type EmailSuppressionReason = "bounce" | "complaint";
+
+export const SUPPRESSED_EMAIL_ERROR =
+	"Emails to this address are bouncing or were reported as spam, so we can't send to it. Use a different address or contact support.";
+
+export async function isEmailSuppressed(db: DatabaseClient, email: string) {
+	const [row] = await db
+		.select({ email: emailSuppressions.email })
+		.from(emailSuppressions)
+		.where(eq(emailSuppressions.email, email.toLowerCase()));
+	return Boolean(row);
+}
+
+/**
+ * Stops all email to an address. The first reason recorded is kept.
+ */
+export async function suppressEmail(
+	db: DatabaseClient,
+	email: string,
+	reason: EmailSuppressionReason,
+	eventId: string | null = null,
+) {
+	await db
+		.insert(emailSuppressions)
+		.values({
+			email: email.toLowerCase(),
+			reason,
+			eventId,
+			createdAt: new Date(),
+		})
+		.onConflictDoNothing()
+		.run();
+}
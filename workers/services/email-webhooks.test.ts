@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { parseResendEvent } from "./email-webhooks";
+
+describe("parseResendEvent", () => {
+	test("reads an event with its recipients", () => {
+		const event = {
+			type: "email.bounced",
+			created_at: "2030-01-01T09:00:00.000Z",
+			data: { email_id: "resend-1", to: ["alice@example.com"] },
+		};
+
+		expect(parseResendEvent(JSON.stringify(event))).toEqual(event);
+	});
+
+	test("rejects bodies that are not shaped like an event", () => {
+		for (const body of [
+			"not json",
+			"null",
+			JSON.stringify({ data: { to: [] } }),
+			JSON.stringify({ type: "email.sent" }),
+			JSON.stringify({ type: "email.sent", data: null }),
+			JSON.stringify({ type: "email.sent", data: {} }),
+			JSON.stringify({ type: "email.sent", data: { to: "a@example.com" } }),
+			JSON.stringify({ type: "email.sent", data: { to: [42] } }),
+		]) {
+			expect(parseResendEvent(body)).toBeNull();
+		}
+	});
+});
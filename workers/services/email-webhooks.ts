@@ -0,0 +1,181 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { eq } from "drizzle-orm";
+import { emailEvents, emailOutbox } from "../../api/database/schema";
+import type { DatabaseClient } from "../types";
+import { suppressEmail } from "./email-suppressions";
+
+// Webhooks older or newer than this are rejected, which stops replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Resend event types that are recorded; opens and clicks are ignored
+ */
+const RECORDED_EVENT_TYPES = [
+	"email.sent",
+	"email.delivered",
+	"email.delivery_delayed",
+	"email.bounced",
+	"email.complained",
+] as const;
+
+type RecordedEventType = (typeof RECORDED_EVENT_TYPES)[number];
+
+type ResendWebhookEvent = {
+	type: string;
+	created_at: string;
+	data: {
+		email_id?: string;
+		to: string[];
+		bounce?: { type?: string; subType?: string; message?: string };
+	};
+};
+
+function isRecordedEventType(value: string): value is RecordedEventType {
+	return (RECORDED_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Checks a Svix webhook signature, as sent by Resend. The secret is the
+ * `whsec_` value from the webhook's settings and `signature` may list
+ * several space-separated signatures while the secret is being rotated.
+ */
+export async function verifySvixSignature(
+	secret: string,
+	headers: Headers,
+	body: string,
+) {
+	const id = headers.get("svix-id");
+	const timestamp = headers.get("svix-timestamp");
+	const signatures = headers.get("svix-signature");
+	if (!secret || !id || !timestamp || !signatures) {
+		return false;
+	}
+	const sentAt = Number(timestamp);
+	if (
+		!Number.isInteger(sentAt) ||
+		Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS
+	) {
+		return false;
+	}
+
+	let key: CryptoKey;
+	try {
+		key = await crypto.subtle.importKey(
+			"raw",
+			Uint8Array.from(atob(secret.replace(/^whsec_/, "")), (char) =>
+				char.charCodeAt(0),
+			),
+			{ name: "HMAC", hash: "SHA-256" },
+			false,
+			["verify"],
+		);
+	} catch {
+		return false;
+	}
+
+	const content = new TextEncoder().encode(`${id}.${timestamp}.${body}`);
+	for (const entry of signatures.split(" ")) {
+		const [version, signature] = entry.split(",");
+		if (version !== "v1" || !signature) {
+			continue;
+		}
+		try {
+			const bytes = Uint8Array.from(atob(signature), (char) =>
+				char.charCodeAt(0),
+			);
+			if (await crypto.subtle.verify("HMAC", key, bytes, content)) {
+				return true;
+			}
+		} catch {
+			// Not base64; try the next signature
+		}
+	}
+	return false;
+}
+
+/**
+ * Hard bounces are permanent; Resend marks soft ones as transient
+ */
+function isHardBounce(event: ResendWebhookEvent) {
+	return event.data.bounce?.type !== "Transient";
+}
+
+/**
+ * Records a verified webhook event against the outbox entry and user it
+ * concerns. Hard bounces and spam complaints put the address on the
+ * suppression list.
+ *
+ * @returns whether the event was recorded; other event types are ignored
+ */
+export async function recordResendEvent(
+	db: DatabaseClient,
+	webhookId: string,
+	event: ResendWebhookEvent,
+) {
+	const email = event.data.to[0]?.toLowerCase();
+	if (!isRecordedEventType(event.type) || !email) {
+		return false;
+	}
+
+	const providerMessageId = event.data.email_id ?? null;
+	const [[outbox], [account]] = await Promise.all([
+		providerMessageId
+			? db
+					.select({ id: emailOutbox.id })
+					.from(emailOutbox)
+					.where(eq(emailOutbox.providerMessageId, providerMessageId))
+			: Promise.resolve([]),
+		db
+			.select({ id: authAdminSchema.user.id })
+			.from(authAdminSchema.user)
+			.where(eq(authAdminSchema.user.email, email)),
+	]);
+
+	const bounce = event.data.bounce;
+	const occurredAt = new Date(event.created_at);
+	await db
+		.insert(emailEvents)
+		.values({
+			id: webhookId,
+			type: event.type.replace(/^email\./, ""),
+			email,
+			providerMessageId,
+			outboxId: outbox?.id ?? null,
+			userId: account?.id ?? null,
+			detail: bounce
+				? [bounce.type, bounce.subType, bounce.message]
+						.filter(Boolean)
+						.join(": ")
+				: null,
+			occurredAt: Number.isNaN(occurredAt.getTime()) ? new Date() : occurredAt,
+			createdAt: new Date(),
+		})
+		.onConflictDoNothing()
+		.run();
+
+	if (event.type === "email.complained") {
+		await suppressEmail(db, email, "complaint", webhookId);
+	} else if (event.type === "email.bounced" && isHardBounce(event)) {
+		await suppressEmail(db, email, "bounce", webhookId);
+	}
+	return true;
+}
+
+/**
+ * Reads a webhook body, or returns null if it is not JSON shaped like an
+ * event with a list of recipients
+ */
+export function parseResendEvent(body: string): ResendWebhookEvent | null {
+	try {
+		const event = JSON.parse(body);
+		return typeof event?.type === "string" &&
+			typeof event.data === "object" &&
+			event.data !== null &&
+			Array.isArray(event.data.to) &&
+			event.data.to.every((to: unknown) => typeof to === "string")
+			? event
+			: null;
+	} catch {
+		return null;
+	}
+}
@@ -1,55 +1,339 @@
+import { drizzle } from "drizzle-orm/d1";
 import { Resend } from "resend";
+import type { EmailBrand } from "../emails/layout";
+import { DEFAULT_EMAIL_LOCALE, resolveEmailLocale } from "../emails/messages";
+import {
+	type EmailTemplateName,
+	type EmailTemplateParams,
+	renderEmail,
+} from "../emails/templates";
 import type { AppType } from "../types";
+import { storeMailboxMessage } from "./dev-mailbox";
+import { type OutboxOptions, sendThroughOutbox } from "./email-outbox";
+import {
+	SUPPRESSED_EMAIL_ERROR,
+	isEmailSuppressed,
+} from "./email-suppressions";
+import type { SerializedNotification } from "./notifications";
+
+export type EmailResult = {
+	success: boolean;
+	messageId?: string;
+	error?: string;
+	/** Handed to the email queue, which keeps retrying in the background */
+	queued?: boolean;
+	/** Refused because the address is on the suppression list */
+	suppressed?: boolean;
+};
+
+const SUPPRESSED_RESULT: EmailResult = {
+	success: false,
+	error: SUPPRESSED_EMAIL_ERROR,
+	suppressed: true,
+};
+
+/**
+ * Who an email goes to. `locale` is a language tag or the `Accept-Language`
+ * header of the request the email is sent for; without one it is in English.
+ */
+export type EmailRecipient = {
+	email: string;
+	locale?: string | null;
+};
 
 export interface EmailService {
-	sendMagicLink(params: {
-		email: string;
-		magicLink: string;
-		ipAddress?: string;
-		userAgent?: string;
-	}): Promise<{ success: boolean; messageId?: string; error?: string }>;
+	sendMagicLink(
+		params: EmailRecipient & {
+			magicLink: string;
+			expiresInMinutes: number;
+			ipAddress?: string;
+			userAgent?: string;
+		},
+	): Promise<EmailResult>;
+	/** A one-time code to type in on the sign-in page, instead of a link */
+	sendSignInCode(
+		params: EmailRecipient & {
+			code: string;
+			expiresInMinutes: number;
+			ipAddress?: string;
+			userAgent?: string;
+		},
+	): Promise<EmailResult>;
+	/** Sent once, when an account is created */
+	sendWelcome(
+		params: EmailRecipient & {
+			name: string;
+			url: string;
+		},
+	): Promise<EmailResult>;
+	/** Sent to the current address to approve a change to `newEmail` */
+	sendEmailChangeConfirmation(
+		params: EmailRecipient & {
+			newEmail: string;
+			url: string;
+		},
+	): Promise<EmailResult>;
+	/** Sent to an address that has not been verified yet, e.g. after a change */
+	sendEmailVerification(
+		params: EmailRecipient & {
+			url: string;
+		},
+	): Promise<EmailResult>;
+	/** Sent when deletion is requested, with a link that cancels it */
+	sendAccountDeletionScheduled(
+		params: EmailRecipient & {
+			scheduledFor: Date;
+			cancelUrl: string;
+		},
+	): Promise<EmailResult>;
+	sendDataExportReady(
+		params: EmailRecipient & {
+			url: string;
+			expiresAt: Date;
+		},
+	): Promise<EmailResult>;
+	/** Summarizes notifications the user has not read yet */
+	sendNotificationDigest(
+		params: EmailRecipient & {
+			name: string;
+			notifications: SerializedNotification[];
+			url: string;
+		},
+	): Promise<EmailResult>;
 }
 
-export class ResendEmailService implements EmailService {
-	private resend: Resend;
-	private fromEmail: string;
-	private fromName: string;
-	private brandLogoUrl?: string;
-	private supportEmail: string;
+/**
+ * Branding for rendered emails, from the sender settings in the environment.
+ * The locale is the default one; `send` swaps in the recipient's.
+ */
+export function getEmailBrand(env: AppType["Bindings"]): EmailBrand {
+	return {
+		appName: env.FROM_NAME || "Your App",
+		logoUrl: env.BRAND_LOGO_URL,
+		supportEmail: env.SUPPORT_EMAIL || "support@example.com",
+		locale: DEFAULT_EMAIL_LOCALE,
+	};
+}
+
+/**
+ * A rendered email, ready to hand to a provider
+ */
+export type OutboundEmail = {
+	to: string;
+	template: string;
+	category: string;
+	subject: string;
+	html: string;
+	text: string;
+	headers?: Record<string, string>;
+	/** The email's main link, for dev logs and the dev mailbox */
+	link?: string;
+};
+
+/**
+ * Delivers rendered email through a provider, without retries
+ */
+export interface EmailSender {
+	deliver(email: OutboundEmail): Promise<EmailResult>;
+}
+
+/**
+ * Renders emails from the template registry and sends them through the
+ * outbox. Providers extend this and implement `deliver`.
+ */
+export abstract class TemplatedEmailService
+	implements EmailService, EmailSender
+{
+	protected env: AppType["Bindings"];
+	protected brand: EmailBrand;
+	protected from: { email: string; name: string };
 	private devMode: boolean;
 
+	constructor(env: AppType["Bindings"]) {
+		this.env = env;
+		this.brand = getEmailBrand(env);
+		this.from = {
+			email: env.FROM_EMAIL || "noreply@example.com",
+			name: env.FROM_NAME || "Your App",
+		};
+		this.devMode = env.DEV_MODE === "true";
+	}
+
+	abstract deliver(email: OutboundEmail): Promise<EmailResult>;
+
+	async sendMagicLink(
+		params: EmailRecipient & {
+			magicLink: string;
+			expiresInMinutes: number;
+			ipAddress?: string;
+			userAgent?: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "magic-link", params, {
+			link: params.magicLink,
+			headers: { "X-Entity-Ref-ID": `magic-link-${Date.now()}` },
+			expiresInMinutes: params.expiresInMinutes,
+		});
+	}
+
+	async sendSignInCode(
+		params: EmailRecipient & {
+			code: string;
+			expiresInMinutes: number;
+			ipAddress?: string;
+			userAgent?: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "sign-in-code", params, {
+			headers: { "X-Entity-Ref-ID": `sign-in-code-${Date.now()}` },
+			expiresInMinutes: params.expiresInMinutes,
+		});
+	}
+
+	async sendWelcome(
+		params: EmailRecipient & {
+			name: string;
+			url: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "welcome", params, { link: params.url });
+	}
+
+	async sendEmailChangeConfirmation(
+		params: EmailRecipient & {
+			newEmail: string;
+			url: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "email-change", params, {
+			link: params.url,
+		});
+	}
+
+	async sendEmailVerification(
+		params: EmailRecipient & {
+			url: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "email-verification", params, {
+			link: params.url,
+		});
+	}
+
+	async sendAccountDeletionScheduled(
+		params: EmailRecipient & {
+			scheduledFor: Date;
+			cancelUrl: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "account-deletion", params, {
+			link: params.cancelUrl,
+		});
+	}
+
+	async sendDataExportReady(
+		params: EmailRecipient & {
+			url: string;
+			expiresAt: Date;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "data-export", params, {
+			link: params.url,
+		});
+	}
+
+	async sendNotificationDigest(
+		params: EmailRecipient & {
+			name: string;
+			notifications: SerializedNotification[];
+			url: string;
+		},
+	): Promise<EmailResult> {
+		return this.send(params, "notification-digest", params, {
+			link: params.url,
+		});
+	}
+
+	/**
+	 * Renders a template in the recipient's locale and dispatches it, unless
+	 * the address is suppressed. In dev mode `link` is also logged, so flows can be followed without
+	 * opening the email. `expiresInMinutes` is how long the link or code in
+	 * the email works for.
+	 */
+	protected async send<Name extends EmailTemplateName>(
+		{ email: to, locale }: EmailRecipient,
+		name: Name,
+		params: EmailTemplateParams[Name],
+		{
+			link,
+			headers,
+			expiresInMinutes,
+		}: {
+			link?: string;
+			headers?: Record<string, string>;
+			expiresInMinutes?: number;
+		} = {},
+	): Promise<EmailResult> {
+		if (await isEmailSuppressed(drizzle(this.env.DB), to)) {
+			return SUPPRESSED_RESULT;
+		}
+		const { critical, ...email } = renderEmail(name, params, {
+			...this.brand,
+			locale: resolveEmailLocale(locale),
+		});
+		const result = await this.dispatch(
+			{ to, template: name, headers, link, ...email },
+			{
+				critical,
+				expiresAt:
+					expiresInMinutes === undefined
+						? undefined
+						: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+			},
+		);
+
+		if (result.success && this.devMode && link) {
+			console.log(`🔗 [DEV] ${email.subject}: ${link}`);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Hands a rendered email to the outbox, which delivers it now or later
+	 */
+	protected dispatch(
+		email: OutboundEmail,
+		options: OutboxOptions,
+	): Promise<EmailResult> {
+		return sendThroughOutbox(this.env, this, email, options);
+	}
+}
+
+export class ResendEmailService extends TemplatedEmailService {
+	private resend: Resend;
+
 	constructor(env: AppType["Bindings"]) {
 		if (!env.RESEND_API_KEY) {
 			throw new Error("RESEND_API_KEY environment variable is required");
 		}
 
+		super(env);
 		this.resend = new Resend(env.RESEND_API_KEY);
-		this.fromEmail = env.FROM_EMAIL || "noreply@example.com";
-		this.fromName = env.FROM_NAME || "Your App";
-		this.brandLogoUrl = env.BRAND_LOGO_URL;
-		this.supportEmail = env.SUPPORT_EMAIL || "support@example.com";
-		this.devMode = env.DEV_MODE === "true";
 	}
 
-	async sendMagicLink(params: {
-		email: string;
-		magicLink: string;
-		ipAddress?: string;
-		userAgent?: string;
-	}): Promise<{ success: boolean; messageId?: string; error?: string }> {
+	async deliver(email: OutboundEmail): Promise<EmailResult> {
 		try {
 			const { data, error } = await this.resend.emails.send({
-				from: `${this.fromName} <${this.fromEmail}>`,
-				to: [params.email],
-				subject: "Sign in to your account",
-				html: this.generateEmailTemplate(params),
-				text: this.generateTextTemplate(params),
-				headers: {
-					"X-Entity-Ref-ID": `magic-link-${Date.now()}`,
-				},
+				from: `${this.from.name} <${this.from.email}>`,
+				to: [email.to],
+				subject: email.subject,
+				html: email.html,
+				text: email.text,
+				headers: email.headers,
 				tags: [
-					{ name: "category", value: "authentication" },
-					{ name: "type", value: "magic-link" },
+					{ name: "category", value: email.category },
+					{ name: "type", value: email.template },
 				],
 			});
 
@@ -58,10 +342,6 @@ export class ResendEmailService implements EmailService {
 				return { success: false, error: error.message };
 			}
 
-			if (this.devMode) {
-				console.log(`🔗 [DEV] Magic Link URL: ${params.magicLink}`);
-			}
-
 			return { success: true, messageId: data?.id };
 		} catch (error) {
 			console.error("Email sending failed:", error);
@@ -71,105 +351,26 @@ export class ResendEmailService implements EmailService {
 			};
 		}
 	}
+}
 
-	private generateEmailTemplate(params: {
-		email: string;
-		magicLink: string;
-		ipAddress?: string;
-		userAgent?: string;
-	}): string {
-		return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Sign in to your account</title>
-</head>
-<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
-  ${this.brandLogoUrl ? `<img src="${this.brandLogoUrl}" alt="${this.fromName}" style="height: 40px; margin-bottom: 20px;">` : ""}
-  
-  <h1 style="color: #2563eb; margin-bottom: 20px;">Sign in to your account</h1>
-  
-  <p>Hello,</p>
-  
-  <p>You requested to sign in to your account. Click the button below to securely access your account:</p>
-  
-  <div style="text-align: center; margin: 30px 0;">
-    <a href="${params.magicLink}" 
-       style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: 500;">
-      Sign In Securely
-    </a>
-  </div>
-  
-  <p><strong>Important:</strong> This link will expire in 10 minutes and can only be used once.</p>
-  
-  <p>If you didn't request this sign-in, you can safely ignore this email.</p>
-  
-  ${
-		params.ipAddress
-			? `<p style="font-size: 14px; color: #666; margin-top: 30px;">
-    <strong>Security Info:</strong><br>
-    IP Address: ${params.ipAddress}<br>
-    ${params.userAgent ? `Device: ${params.userAgent.slice(0, 100)}...` : ""}
-  </p>`
-			: ""
-	}
-  
-  <hr style="border: none; border-top: 1px solid #eee; margin: 30px 0;">
-  
-  <p style="font-size: 12px; color: #999;">
-    If you have trouble clicking the button, copy and paste this URL into your browser:<br>
-    <a href="${params.magicLink}" style="color: #2563eb; word-break: break-all;">${params.magicLink}</a>
-  </p>
-  
-  <p style="font-size: 12px; color: #999;">
-    Need help? Contact us at <a href="mailto:${this.supportEmail}">${this.supportEmail}</a>
-  </p>
-</body>
-</html>
-    `.trim();
-	}
-
-	private generateTextTemplate(params: {
-		email: string;
-		magicLink: string;
-		ipAddress?: string;
-	}): string {
-		return `
-Sign in to your account
-
-Hello,
-
-You requested to sign in to your account. Use the link below to securely access your account:
-
-${params.magicLink}
-
-Important: This link will expire in 10 minutes and can only be used once.
-
-If you didn't request this sign-in, you can safely ignore this email.
-
-${params.ipAddress ? `\nSecurity Info:\nIP Address: ${params.ipAddress}` : ""}
-
-Need help? Contact us at ${this.supportEmail}
-    `.trim();
+/**
+ * Used when no provider is configured. Messages skip the outbox and are
+ * logged and kept in the dev mailbox (`/dev/mailbox`) instead of being sent.
+ */
+export class MockEmailService extends TemplatedEmailService {
+	protected dispatch(email: OutboundEmail): Promise<EmailResult> {
+		return this.deliver(email);
 	}
-}
 
-export class MockEmailService implements EmailService {
-	async sendMagicLink(params: {
-		email: string;
-		magicLink: string;
-	}): Promise<{ success: boolean; messageId?: string; error?: string }> {
-		console.log("📧 [MOCK EMAIL] Magic Link Email:", {
-			to: params.email,
-			magicLink: params.magicLink,
-			timestamp: new Date().toISOString(),
+	async deliver(email: OutboundEmail): Promise<EmailResult> {
+		const message = await storeMailboxMessage(this.env.SESSIONS, email);
+		console.log(`📧 [MOCK EMAIL] ${email.subject}:`, {
+			to: email.to,
+			template: email.template,
+			link: email.link,
+			timestamp: message.createdAt,
 		});
 
-		return {
-			success: true,
-			messageId: `mock-${Date.now()}`,
-		};
+		return { success: true, messageId: `mock-${message.id}` };
 	}
 }
@@ -0,0 +1,49 @@
+import type { AppType } from "../types";
+import type { PublicPost } from "./posts";
+
+/**
+ * Every client connects to the same hub
+ */
+export const FEED_HUB_NAME = "feed";
+
+export type FeedEvent =
+	| { type: "post.created"; post: PublicPost }
+	| {
+			type: "comment.created";
+			postId: string;
+			postAuthorId: string;
+			commentId: string;
+			parentId: string | null;
+			/** The post's comment count including the new comment */
+			commentCount: number;
+	  };
+
+/**
+ * The user an event is sent to. The feed only lists the viewer's own posts,
+ * so events about a post only go to its author.
+ */
+export function feedEventRecipient(event: FeedEvent) {
+	return event.type === "post.created"
+		? event.post.authorId
+		: event.postAuthorId;
+}
+
+export function getFeedHub(env: AppType["Bindings"]) {
+	return env.FEED_HUB.get(env.FEED_HUB.idFromName(FEED_HUB_NAME));
+}
+
+/**
+ * Sends an event to the feed connections of its recipient. Failures are logged
+ * rather than thrown: live updates are best-effort and the write that caused
+ * the event has already succeeded.
+ */
+export async function publishFeedEvent(
+	env: AppType["Bindings"],
+	event: FeedEvent,
+) {
+	try {
+		await getFeedHub(env).broadcast(event);
+	} catch (error) {
+		console.error("Failed to publish feed event:", event.type, error);
+	}
+}
@@ -0,0 +1,212 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { and, count, desc, eq, isNull } from "drizzle-orm";
+import { notifications, posts } from "../../api/database/schema";
+import { REACTIONS, type ReactionName, isReactionName } from "../reactions";
+import type { DatabaseClient } from "../types";
+
+export const NOTIFICATION_TYPES = ["comment", "reply", "reaction"] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const NOTIFICATIONS_PAGE_SIZE = 50;
+
+export type NewNotification = {
+	userId: string;
+	actorId: string;
+	type: NotificationType;
+	postId: string;
+	commentId?: string | null;
+	reaction?: ReactionName | null;
+};
+
+export type SerializedNotification = {
+	id: string;
+	type: NotificationType;
+	actorName: string;
+	postId: string;
+	postTitle: string;
+	reaction: ReactionName | null;
+	read: boolean;
+	createdAt: string;
+};
+
+function isNotificationType(value: string): value is NotificationType {
+	return (NOTIFICATION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * One-line summary for the notifications page. Digest emails describe
+ * notifications in the recipient's language instead.
+ */
+export function describeNotification(notification: SerializedNotification) {
+	const title = `“${notification.postTitle}”`;
+	switch (notification.type) {
+		case "comment":
+			return `${notification.actorName} commented on ${title}`;
+		case "reply":
+			return `${notification.actorName} replied to your comment on ${title}`;
+		case "reaction":
+			return `${notification.actorName} reacted ${
+				notification.reaction ? REACTIONS[notification.reaction] : ""
+			} to ${title}`;
+	}
+}
+
+/**
+ * Stores notifications, skipping any addressed to the user who caused them
+ */
+export async function createNotifications(
+	db: DatabaseClient,
+	list: NewNotification[],
+) {
+	const rows = list
+		.filter((notification) => notification.userId !== notification.actorId)
+		.map((notification) => ({
+			id: crypto.randomUUID(),
+			...notification,
+			createdAt: new Date(),
+		}));
+	if (rows.length > 0) {
+		await db.insert(notifications).values(rows).run();
+	}
+}
+
+/**
+ * Removes a notification that has not been read yet, e.g. when the reaction
+ * it was about is taken back
+ */
+export async function withdrawNotification(
+	db: DatabaseClient,
+	notification: NewNotification,
+) {
+	await db
+		.delete(notifications)
+		.where(
+			and(
+				eq(notifications.userId, notification.userId),
+				eq(notifications.actorId, notification.actorId),
+				eq(notifications.type, notification.type),
+				eq(notifications.postId, notification.postId),
+				notification.commentId
+					? eq(notifications.commentId, notification.commentId)
+					: isNull(notifications.commentId),
+				notification.reaction
+					? eq(notifications.reaction, notification.reaction)
+					: isNull(notifications.reaction),
+				isNull(notifications.readAt),
+			),
+		)
+		.run();
+}
+
+/**
+ * Lists a user's notifications, newest first
+ */
+export async function listNotifications(
+	db: DatabaseClient,
+	userId: string,
+	{ limit = NOTIFICATIONS_PAGE_SIZE }: { limit?: number } = {},
+): Promise<SerializedNotification[]> {
+	const rows = await db
+		.select({
+			id: notifications.id,
+			type: notifications.type,
+			actorName: authAdminSchema.user.name,
+			postId: notifications.postId,
+			postTitle: posts.title,
+			reaction: notifications.reaction,
+			readAt: notifications.readAt,
+			createdAt: notifications.createdAt,
+		})
+		.from(notifications)
+		.innerJoin(
+			authAdminSchema.user,
+			eq(notifications.actorId, authAdminSchema.user.id),
+		)
+		.innerJoin(posts, eq(notifications.postId, posts.id))
+		.where(and(eq(notifications.userId, userId), isNull(posts.deletedAt)))
+		.orderBy(desc(notifications.createdAt), desc(notifications.id))
+		.limit(limit);
+
+	return rows.flatMap((row) =>
+		isNotificationType(row.type)
+			? [
+					{
+						id: row.id,
+						type: row.type,
+						actorName: row.actorName,
+						postId: row.postId,
+						postTitle: row.postTitle,
+						reaction: isReactionName(row.reaction) ? row.reaction : null,
+						read: row.readAt !== null,
+						createdAt: row.createdAt.toISOString(),
+					},
+				]
+			: [],
+	);
+}
+
+/**
+ * Counts the unread notifications `listNotifications` would show, so ones
+ * about deleted posts are left out
+ */
+export async function countUnreadNotifications(
+	db: DatabaseClient,
+	userId: string,
+) {
+	const [{ unread }] = await db
+		.select({ unread: count() })
+		.from(notifications)
+		.innerJoin(posts, eq(notifications.postId, posts.id))
+		.where(
+			and(
+				eq(notifications.userId, userId),
+				isNull(notifications.readAt),
+				isNull(posts.deletedAt),
+			),
+		);
+	return unread;
+}
+
+/**
+ * Marks one of the user's notifications as read
+ *
+ * @returns whether the user has such a notification
+ */
+export async function markNotificationRead(
+	db: DatabaseClient,
+	userId: string,
+	id: string,
+) {
+	const updated = await db
+		.update(notifications)
+		.set({ readAt: new Date() })
+		.where(
+			and(
+				eq(notifications.id, id),
+				eq(notifications.userId, userId),
+				isNull(notifications.readAt),
+			),
+		)
+		.returning({ id: notifications.id });
+	if (updated.length > 0) {
+		return true;
+	}
+	// Already read is fine; only a missing notification is an error
+	const [existing] = await db
+		.select({ id: notifications.id })
+		.from(notifications)
+		.where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
+	return existing !== undefined;
+}
+
+export async function markAllNotificationsRead(
+	db: DatabaseClient,
+	userId: string,
+) {
+	await db
+		.update(notifications)
+		.set({ readAt: new Date() })
+		.where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+		.run();
+}
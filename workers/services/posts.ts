@@ -0,0 +1,348 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { and, desc, eq, isNull, lt, or } from "drizzle-orm";
+import { type ReactionCounts, posts } from "../../api/database/schema";
+import type { ReactionName } from "../reactions";
+import { type Actor, canDeleteContent, canEditContent } from "../roles";
+import type { AppType, DatabaseClient } from "../types";
+import { MAX_ATTACHMENTS_PER_POST } from "../uploads";
+import {
+	type SerializedAttachment,
+	attachToPost,
+	listPostAttachments,
+	serializeAttachment,
+} from "./attachments";
+import { listUserReactions } from "./reactions";
+
+export type Post = {
+	id: string;
+	authorId: string;
+	title: string;
+	body: string;
+	createdAt: Date;
+	updatedAt: Date;
+	commentCount: number;
+	reactionCounts: ReactionCounts;
+};
+
+/**
+ * A post as listed in the feed, with its author's name
+ */
+export type FeedPost = Post & { authorName: string };
+
+/**
+ * JSON shape of a post that is the same for every viewer, as sent to the
+ * browser and in feed events
+ */
+export type PublicPost = {
+	id: string;
+	authorId: string;
+	authorName: string;
+	title: string;
+	body: string;
+	createdAt: string;
+	commentCount: number;
+	reactionCounts: ReactionCounts;
+	attachments: SerializedAttachment[];
+};
+
+/**
+ * A post as shown to one viewer, including what they have done with it and
+ * may do to it
+ */
+export type SerializedPost = PublicPost & {
+	viewerReactions: ReactionName[];
+	canEdit: boolean;
+	canDelete: boolean;
+};
+
+/**
+ * Builds the viewer-independent JSON for posts, signing attachment URLs
+ */
+export async function toPublicPosts(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	list: FeedPost[],
+): Promise<PublicPost[]> {
+	const attachmentsByPost = await listPostAttachments(
+		db,
+		list.map((post) => post.id),
+	);
+	return Promise.all(
+		list.map(async (post) => ({
+			id: post.id,
+			authorId: post.authorId,
+			authorName: post.authorName,
+			title: post.title,
+			body: post.body,
+			createdAt: post.createdAt.toISOString(),
+			commentCount: post.commentCount,
+			reactionCounts: post.reactionCounts,
+			attachments: await Promise.all(
+				(attachmentsByPost.get(post.id) ?? []).map((attachment) =>
+					serializeAttachment(env, attachment),
+				),
+			),
+		})),
+	);
+}
+
+export async function serializePosts(
+	env: AppType["Bindings"],
+	db: DatabaseClient,
+	viewer: Actor,
+	list: FeedPost[],
+): Promise<SerializedPost[]> {
+	const [publicPosts, viewerReactions] = await Promise.all([
+		toPublicPosts(env, db, list),
+		listUserReactions(
+			db,
+			viewer.id,
+			list.map((post) => post.id),
+		),
+	]);
+	return publicPosts.map((post) => ({
+		...post,
+		viewerReactions: viewerReactions.get(post.id) ?? [],
+		canEdit: canEditContent(viewer, post.authorId),
+		canDelete: canDeleteContent(viewer, post.authorId),
+	}));
+}
+
+const postColumns = {
+	id: posts.id,
+	authorId: posts.authorId,
+	title: posts.title,
+	body: posts.body,
+	createdAt: posts.createdAt,
+	updatedAt: posts.updatedAt,
+	commentCount: posts.commentCount,
+	reactionCounts: posts.reactionCounts,
+};
+
+export const POSTS_PAGE_SIZE = 20;
+export const POSTS_MAX_PAGE_SIZE = 50;
+
+/**
+ * Keyset position in the feed: the `createdAt` and `id` of the last post
+ * already shown. The id breaks ties between posts created in the same
+ * millisecond.
+ */
+export type PostCursor = {
+	createdAt: Date;
+	id: string;
+};
+
+export type PostPage = {
+	posts: FeedPost[];
+	/** Cursor for the following page, or `null` if this is the last one */
+	nextCursor: string | null;
+};
+
+export function encodePostCursor(post: PostCursor) {
+	return `${post.createdAt.getTime()}:${post.id}`;
+}
+
+export function decodePostCursor(value: string | null): PostCursor | null {
+	if (!value) {
+		return null;
+	}
+	const separator = value.indexOf(":");
+	const createdAt = new Date(Number(value.slice(0, separator)));
+	const id = value.slice(separator + 1);
+	if (separator < 1 || !id || Number.isNaN(createdAt.getTime())) {
+		return null;
+	}
+	return { createdAt, id };
+}
+
+export function parsePageSize(value: string | null) {
+	const size = Number(value);
+	return Number.isInteger(size) && size > 0
+		? Math.min(size, POSTS_MAX_PAGE_SIZE)
+		: POSTS_PAGE_SIZE;
+}
+
+/**
+ * Lists a page of posts, newest first, starting after `cursor`. Pass
+ * `authorId` to only list one author's posts. Soft-deleted posts are
+ * excluded.
+ */
+export async function listPostsPage(
+	db: DatabaseClient,
+	{
+		authorId,
+		cursor,
+		limit = POSTS_PAGE_SIZE,
+	}: { authorId?: string; cursor?: PostCursor | null; limit?: number },
+): Promise<PostPage> {
+	const rows = await db
+		.select({ ...postColumns, authorName: authAdminSchema.user.name })
+		.from(posts)
+		.innerJoin(
+			authAdminSchema.user,
+			eq(posts.authorId, authAdminSchema.user.id),
+		)
+		.where(
+			and(
+				authorId ? eq(posts.authorId, authorId) : undefined,
+				isNull(posts.deletedAt),
+				cursor
+					? or(
+							lt(posts.createdAt, cursor.createdAt),
+							and(
+								eq(posts.createdAt, cursor.createdAt),
+								lt(posts.id, cursor.id),
+							),
+						)
+					: undefined,
+			),
+		)
+		.orderBy(desc(posts.createdAt), desc(posts.id))
+		// One extra row tells us whether another page follows
+		.limit(limit + 1);
+
+	const page = rows.slice(0, limit);
+	const last = page.at(-1);
+	return {
+		posts: page,
+		nextCursor: rows.length > limit && last ? encodePostCursor(last) : null,
+	};
+}
+
+export const POST_TITLE_MAX_LENGTH = 120;
+export const POST_BODY_MAX_LENGTH = 5000;
+
+export type PostInput = {
+	title: string;
+	body: string;
+};
+
+export type PostErrors = Partial<Record<"title" | "body" | "form", string>>;
+
+/**
+ * JSON body the feed submits to its route action
+ */
+export type PostMutation =
+	| ({ intent: "create"; attachmentIds?: string[] } & PostInput)
+	| ({ intent: "update"; id: string } & PostInput)
+	| { intent: "delete"; id: string };
+
+export type PostActionResult =
+	| { ok: true; intent: PostMutation["intent"]; id: string }
+	| { ok: false; intent: PostMutation["intent"] | null; errors: PostErrors };
+
+export function validatePostInput(input: {
+	title?: unknown;
+	body?: unknown;
+}):
+	| { success: true; data: PostInput }
+	| { success: false; errors: PostErrors } {
+	const title = typeof input.title === "string" ? input.title.trim() : "";
+	const body = typeof input.body === "string" ? input.body.trim() : "";
+
+	const errors: PostErrors = {};
+	if (!title) {
+		errors.title = "Please give your post a title.";
+	} else if (title.length > POST_TITLE_MAX_LENGTH) {
+		errors.title = `Title must be at most ${POST_TITLE_MAX_LENGTH} characters.`;
+	}
+	if (!body) {
+		errors.body = "Please write something.";
+	} else if (body.length > POST_BODY_MAX_LENGTH) {
+		errors.body = `Post must be at most ${POST_BODY_MAX_LENGTH} characters.`;
+	}
+
+	if (Object.keys(errors).length > 0) {
+		return { success: false, errors };
+	}
+	return { success: true, data: { title, body } };
+}
+
+/**
+ * Creates a post and attaches the author's unused uploads given in
+ * `attachmentIds`
+ */
+export async function createPost(
+	db: DatabaseClient,
+	authorId: string,
+	input: PostInput,
+	attachmentIds: string[] = [],
+): Promise<Post> {
+	const now = new Date();
+	const [post] = await db
+		.insert(posts)
+		.values({
+			id: crypto.randomUUID(),
+			authorId,
+			title: input.title,
+			body: input.body,
+			createdAt: now,
+			updatedAt: now,
+		})
+		.returning(postColumns);
+	await attachToPost(db, authorId, post.id, attachmentIds);
+	return post;
+}
+
+/**
+ * Reads the ids of uploads to attach to a new post from a request body
+ */
+export function parseAttachmentIds(value: unknown): string[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	return value
+		.filter((id): id is string => typeof id === "string")
+		.slice(0, MAX_ATTACHMENTS_PER_POST);
+}
+
+/**
+ * Updates one of the author's own posts.
+ *
+ * @returns the updated post, or `null` if the author has no such post
+ */
+export async function updatePost(
+	db: DatabaseClient,
+	authorId: string,
+	id: string,
+	input: PostInput,
+): Promise<Post | null> {
+	const [post] = await db
+		.update(posts)
+		.set({ title: input.title, body: input.body, updatedAt: new Date() })
+		.where(
+			and(
+				eq(posts.id, id),
+				eq(posts.authorId, authorId),
+				isNull(posts.deletedAt),
+			),
+		)
+		.returning(postColumns);
+	return post ?? null;
+}
+
+/**
+ * Soft-deletes a post if the actor wrote it or is an admin
+ */
+export async function deletePost(
+	db: DatabaseClient,
+	actor: Actor,
+	id: string,
+): Promise<"deleted" | "not_found" | "forbidden"> {
+	const [post] = await db
+		.select({ authorId: posts.authorId })
+		.from(posts)
+		.where(and(eq(posts.id, id), isNull(posts.deletedAt)));
+	if (!post) {
+		return "not_found";
+	}
+	if (!canDeleteContent(actor, post.authorId)) {
+		return "forbidden";
+	}
+	await db
+		.update(posts)
+		.set({ deletedAt: new Date() })
+		.where(eq(posts.id, id))
+		.run();
+	return "deleted";
+}
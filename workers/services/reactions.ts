@@ -0,0 +1,92 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { posts, reactions } from "../../api/database/schema";
+import { type ReactionName, isReactionName } from "../reactions";
+import type { DatabaseClient } from "../types";
+import {
+	type NewNotification,
+	createNotifications,
+	withdrawNotification,
+} from "./notifications";
+
+/**
+ * Adds the user's reaction to a post, or removes it if they already reacted
+ * that way. Counts on `posts` are kept up to date by triggers. Removing a
+ * reaction also withdraws its notification if the author hasn't read it, so
+ * toggling doesn't pile up notifications.
+ *
+ * @returns whether the user now has that reaction, or `null` if the post
+ * does not exist
+ */
+export async function toggleReaction(
+	db: DatabaseClient,
+	userId: string,
+	postId: string,
+	reaction: ReactionName,
+): Promise<{ reacted: boolean } | null> {
+	const [post] = await db
+		.select({ id: posts.id, authorId: posts.authorId })
+		.from(posts)
+		.where(and(eq(posts.id, postId), isNull(posts.deletedAt)));
+	if (!post) {
+		return null;
+	}
+
+	const notification: NewNotification = {
+		userId: post.authorId,
+		actorId: userId,
+		type: "reaction",
+		postId,
+		reaction,
+	};
+
+	const removed = await db
+		.delete(reactions)
+		.where(
+			and(
+				eq(reactions.postId, postId),
+				eq(reactions.userId, userId),
+				eq(reactions.reaction, reaction),
+			),
+		)
+		.returning({ postId: reactions.postId });
+	if (removed.length > 0) {
+		await withdrawNotification(db, notification);
+		return { reacted: false };
+	}
+
+	const added = await db
+		.insert(reactions)
+		.values({ postId, userId, reaction, createdAt: new Date() })
+		.onConflictDoNothing()
+		.returning({ postId: reactions.postId });
+	if (added.length > 0) {
+		await createNotifications(db, [notification]);
+	}
+	return { reacted: true };
+}
+
+/**
+ * Looks up which reactions a user has added to each of the given posts
+ */
+export async function listUserReactions(
+	db: DatabaseClient,
+	userId: string,
+	postIds: string[],
+): Promise<Map<string, ReactionName[]>> {
+	const byPost = new Map<string, ReactionName[]>();
+	if (postIds.length === 0) {
+		return byPost;
+	}
+	const rows = await db
+		.select({ postId: reactions.postId, reaction: reactions.reaction })
+		.from(reactions)
+		.where(
+			and(eq(reactions.userId, userId), inArray(reactions.postId, postIds)),
+		);
+	for (const row of rows) {
+		if (isReactionName(row.reaction)) {
+			byPost.set(row.postId, [...(byPost.get(row.postId) ?? []), row.reaction]);
+		}
+	}
+	return byPost;
+}
@@ -0,0 +1,158 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { drizzle } from "drizzle-orm/d1";
+import { authFactory } from "../auth";
+import type { AppType } from "../types";
+import { getClientIp } from "./audit";
+import {
+	SUPPRESSED_EMAIL_ERROR,
+	isEmailSuppressed,
+} from "./email-suppressions";
+
+/**
+ * Version of the Terms of Service and Privacy Policy shown on /tos and
+ * /privacy. Bump it whenever either document changes so new acceptances can
+ * be told apart from old ones.
+ */
+export const TERMS_VERSION = "2025-06-01";
+
+export type SignUpInput = {
+	name: string;
+	email: string;
+};
+
+export type SignUpErrors = Partial<
+	Record<"name" | "email" | "terms" | "form", string>
+>;
+
+export type SignUpResult =
+	| { success: true }
+	| { success: false; errors: SignUpErrors };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Checks a display name, returning the message to show if it is invalid.
+ * Shared with the profile settings.
+ */
+export function validateName(name: string) {
+	if (!name) {
+		return "Please enter your full name.";
+	}
+	if (name.length > MAX_NAME_LENGTH) {
+		return `Name must be at most ${MAX_NAME_LENGTH} characters.`;
+	}
+	return undefined;
+}
+
+export function validateEmail(email: string) {
+	if (!email) {
+		return "Please enter your email address.";
+	}
+	if (!EMAIL_PATTERN.test(email)) {
+		return "Please enter a valid email address.";
+	}
+	return undefined;
+}
+
+export function validateSignUp(
+	formData: FormData,
+):
+	| { success: true; data: SignUpInput }
+	| { success: false; errors: SignUpErrors } {
+	const name = String(formData.get("name") ?? "").trim();
+	const email = String(formData.get("email") ?? "")
+		.trim()
+		.toLowerCase();
+	const terms = formData.get("terms");
+
+	const errors: SignUpErrors = {};
+	const nameError = validateName(name);
+	if (nameError) {
+		errors.name = nameError;
+	}
+	const emailError = validateEmail(email);
+	if (emailError) {
+		errors.email = emailError;
+	}
+	if (!terms) {
+		errors.terms = "You need to accept the Terms and Privacy Policy.";
+	}
+
+	if (Object.keys(errors).length > 0) {
+		return { success: false, errors };
+	}
+	return { success: true, data: { name, email } };
+}
+
+/**
+ * Creates the user, records their acceptance of the current terms and sends
+ * the first magic link.
+ */
+export async function registerUser(
+	env: AppType["Bindings"],
+	request: Request,
+	input: SignUpInput,
+): Promise<SignUpResult> {
+	const auth = await authFactory(env, request);
+	const { internalAdapter } = await auth.$context;
+
+	if (await isEmailSuppressed(drizzle(env.DB), input.email)) {
+		return { success: false, errors: { email: SUPPRESSED_EMAIL_ERROR } };
+	}
+
+	const existing = await internalAdapter.findUserByEmail(input.email);
+	if (existing) {
+		return {
+			success: false,
+			errors: {
+				email: "An account with this email already exists. Please sign in.",
+			},
+		};
+	}
+
+	const user = await internalAdapter.createUser({
+		name: input.name,
+		email: input.email,
+		emailVerified: false,
+	});
+	if (!user) {
+		return {
+			success: false,
+			errors: { form: "We could not create your account. Please try again." },
+		};
+	}
+
+	await drizzle(env.DB)
+		.insert(authAdminSchema.termsAcceptance)
+		.values({
+			id: crypto.randomUUID(),
+			userId: user.id,
+			version: TERMS_VERSION,
+			acceptedAt: new Date(),
+			ipAddress: getClientIp(request),
+			userAgent: request.headers.get("User-Agent"),
+		})
+		.run();
+
+	try {
+		await auth.api.signInMagicLink({
+			body: {
+				email: input.email,
+				name: input.name,
+				callbackURL: `${new URL(request.url).origin}/feed`,
+			},
+			headers: request.headers,
+		});
+	} catch (error) {
+		console.error("Failed to send sign-up magic link:", error);
+		return {
+			success: false,
+			errors: {
+				form: "Your account was created, but we could not send the sign-in email. Please try signing in.",
+			},
+		};
+	}
+
+	return { success: true };
+}
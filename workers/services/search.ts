@@ -0,0 +1,108 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { posts } from "../../api/database/schema";
+import type { DatabaseClient } from "../types";
+
+export const SEARCH_RESULT_LIMIT = 20;
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+
+// Control characters can't appear in user text typed into a post form, so
+// they safely mark where FTS5 highlighted a match
+const MATCH_START = "\u0002";
+const MATCH_END = "\u0003";
+
+/**
+ * Part of a title or snippet; `match` parts matched the search terms
+ */
+export type HighlightSegment = {
+	text: string;
+	match: boolean;
+};
+
+export type PostSearchResult = {
+	id: string;
+	authorName: string;
+	createdAt: string;
+	title: HighlightSegment[];
+	snippet: HighlightSegment[];
+};
+
+/**
+ * Turns free text into an FTS5 query: every word must match and the last one
+ * may be a prefix, so results keep up while the user is still typing. Words
+ * are quoted, which keeps FTS5 operators and punctuation from causing syntax
+ * errors.
+ *
+ * @returns the query, or `null` if the text has no searchable words
+ */
+export function toFtsQuery(text: string): string | null {
+	const words = text
+		.slice(0, SEARCH_QUERY_MAX_LENGTH)
+		.split(/\s+/)
+		.map((word) => word.replaceAll('"', ""))
+		.filter(Boolean);
+	if (words.length === 0) {
+		return null;
+	}
+	return words
+		.map((word, index) =>
+			index === words.length - 1 ? `"${word}"*` : `"${word}"`,
+		)
+		.join(" ");
+}
+
+function toSegments(marked: string): HighlightSegment[] {
+	const segments: HighlightSegment[] = [];
+	for (const part of marked.split(MATCH_START)) {
+		const end = part.indexOf(MATCH_END);
+		if (end === -1) {
+			segments.push({ text: part, match: false });
+		} else {
+			segments.push({ text: part.slice(0, end), match: true });
+			segments.push({ text: part.slice(end + 1), match: false });
+		}
+	}
+	return segments.filter((segment) => segment.text);
+}
+
+/**
+ * Searches post titles and bodies, best matches first. Title matches weigh
+ * more than body matches. Soft-deleted posts are excluded.
+ */
+export async function searchPosts(
+	db: DatabaseClient,
+	text: string,
+	{ limit = SEARCH_RESULT_LIMIT }: { limit?: number } = {},
+): Promise<PostSearchResult[]> {
+	const query = toFtsQuery(text);
+	if (!query) {
+		return [];
+	}
+
+	const rank = sql<number>`bm25(posts_fts, 10.0, 1.0)`;
+	const rows = await db
+		.select({
+			id: posts.id,
+			authorName: authAdminSchema.user.name,
+			createdAt: posts.createdAt,
+			title: sql<string>`highlight(posts_fts, 0, ${MATCH_START}, ${MATCH_END})`,
+			snippet: sql<string>`snippet(posts_fts, 1, ${MATCH_START}, ${MATCH_END}, '…', 24)`,
+		})
+		.from(posts)
+		.innerJoin(sql`posts_fts`, sql`posts_fts.rowid = ${posts}.rowid`)
+		.innerJoin(
+			authAdminSchema.user,
+			eq(posts.authorId, authAdminSchema.user.id),
+		)
+		.where(and(sql`posts_fts MATCH ${query}`, isNull(posts.deletedAt)))
+		.orderBy(rank)
+		.limit(limit);
+
+	return rows.map((row) => ({
+		id: row.id,
+		authorName: row.authorName,
+		createdAt: row.createdAt.toISOString(),
+		title: toSegments(row.title),
+		snippet: toSegments(row.snippet),
+	}));
+}
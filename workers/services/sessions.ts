@@ -0,0 +1,134 @@
+import { authAdminSchema } from "@portcityai/better-auth";
+import { and, desc, eq, gt } from "drizzle-orm";
+import type { DatabaseClient } from "../types";
+
+const { session } = authAdminSchema;
+
+export type SessionLocation = {
+	country: string | null;
+	city: string | null;
+};
+
+export type SerializedSession = {
+	id: string;
+	browser: string;
+	device: string;
+	ipAddress: string | null;
+	location: string | null;
+	createdAt: string;
+	lastActiveAt: string;
+	current: boolean;
+};
+
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims
+// to be Safari
+const BROWSERS: [RegExp, string][] = [
+	[/Edg(e|A|iOS)?\//, "Edge"],
+	[/OPR\/|Opera/, "Opera"],
+	[/SamsungBrowser\//, "Samsung Internet"],
+	[/Firefox\/|FxiOS\//, "Firefox"],
+	[/Chrome\/|CriOS\//, "Chrome"],
+	[/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+	[/iPhone/, "iPhone"],
+	[/iPad/, "iPad"],
+	[/Android/, "Android"],
+	[/Windows/, "Windows"],
+	[/CrOS/, "ChromeOS"],
+	[/Mac OS X|Macintosh/, "macOS"],
+	[/Linux/, "Linux"],
+];
+
+function match(patterns: [RegExp, string][], userAgent: string) {
+	return patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+}
+
+/**
+ * Names the browser and device behind a user agent string well enough for a
+ * person to recognise their own sessions
+ */
+export function describeUserAgent(userAgent: string | null) {
+	if (!userAgent) {
+		return { browser: "Unknown browser", device: "Unknown device" };
+	}
+	return {
+		browser: match(BROWSERS, userAgent) ?? "Unknown browser",
+		device: match(OPERATING_SYSTEMS, userAgent) ?? "Unknown device",
+	};
+}
+
+/**
+ * Approximate location from Cloudflare's geolocation of the client IP
+ */
+export function getRequestLocation(request: Request): SessionLocation {
+	const cf = request.cf as IncomingRequestCfProperties | undefined;
+	return { country: cf?.country ?? null, city: cf?.city ?? null };
+}
+
+/**
+ * Marks a session as just used, from where the request came from. Shown as
+ * last active on the sessions page.
+ */
+export async function recordSessionActivity(
+	db: DatabaseClient,
+	token: string,
+	request: Request,
+) {
+	await db
+		.update(session)
+		.set({ ...getRequestLocation(request), updatedAt: new Date() })
+		.where(eq(session.token, token))
+		.run();
+}
+
+function formatLocation({ country, city }: SessionLocation) {
+	if (!country) {
+		return null;
+	}
+	const countryName =
+		new Intl.DisplayNames(["en"], { type: "region" }).of(country) ?? country;
+	return city ? `${city}, ${countryName}` : countryName;
+}
+
+/**
+ * A user's unexpired sessions, most recently active first
+ */
+export async function listUserSessions(
+	db: DatabaseClient,
+	userId: string,
+	currentSessionId: string,
+): Promise<SerializedSession[]> {
+	const rows = await db
+		.select()
+		.from(session)
+		.where(and(eq(session.userId, userId), gt(session.expiresAt, new Date())))
+		.orderBy(desc(session.updatedAt));
+
+	return rows.map((row) => ({
+		id: row.id,
+		...describeUserAgent(row.userAgent),
+		ipAddress: row.ipAddress || null,
+		location: formatLocation(row),
+		createdAt: row.createdAt.toISOString(),
+		lastActiveAt: row.updatedAt.toISOString(),
+		current: row.id === currentSessionId,
+	}));
+}
+
+/**
+ * Looks up the token for one of the user's sessions, which better-auth needs
+ * to revoke it. Tokens never leave the server; the page only sees ids.
+ */
+export async function findSessionToken(
+	db: DatabaseClient,
+	userId: string,
+	sessionId: string,
+) {
+	const [row] = await db
+		.select({ token: session.token })
+		.from(session)
+		.where(and(eq(session.id, sessionId), eq(session.userId, userId)));
+	return row?.token ?? null;
+}
@@ -0,0 +1,76 @@
+import type { AppType } from "../types";
+
+function toBase64Url(bytes: ArrayBuffer) {
+	return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+		.replaceAll("+", "-")
+		.replaceAll("/", "_")
+		.replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+	const base64 = value.replaceAll("-", "+").replaceAll("_", "/");
+	return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+function signingKey(env: AppType["Bindings"]) {
+	return crypto.subtle.importKey(
+		"raw",
+		new TextEncoder().encode(env.UPLOAD_SIGNING_SECRET),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign", "verify"],
+	);
+}
+
+/**
+ * Appends `expires` (seconds since the epoch) and an HMAC signature over
+ * `subject` and the expiry to `path`. The subject names what the link grants
+ * access to, so a signature for one thing can't be reused for another.
+ */
+export async function signUrl(
+	env: AppType["Bindings"],
+	path: string,
+	subject: string,
+	expiresAt: Date,
+) {
+	const expires = Math.floor(expiresAt.getTime() / 1000);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		await signingKey(env),
+		new TextEncoder().encode(`${subject}:${expires}`),
+	);
+	const params = new URLSearchParams({
+		expires: String(expires),
+		signature: toBase64Url(signature),
+	});
+	return `${path}?${params}`;
+}
+
+/**
+ * Checks the `expires` and `signature` query parameters of a URL made by
+ * `signUrl` for the same subject
+ */
+export async function verifySignedUrl(
+	env: AppType["Bindings"],
+	subject: string,
+	expires: string | undefined | null,
+	signature: string | undefined | null,
+) {
+	const expiresAt = Number(expires);
+	if (!signature || !Number.isInteger(expiresAt)) {
+		return false;
+	}
+	if (expiresAt < Date.now() / 1000) {
+		return false;
+	}
+	try {
+		return await crypto.subtle.verify(
+			"HMAC",
+			await signingKey(env),
+			fromBase64Url(signature),
+			new TextEncoder().encode(`${subject}:${expiresAt}`),
+		);
+	} catch {
+		return false;
+	}
+}
@@ -0,0 +1,38 @@
+import type { SocialProviders } from "better-auth/social-providers";
+import type { AppType } from "./types";
+
+export const SOCIAL_PROVIDER_IDS = ["google", "github"] as const;
+
+export type SocialProviderId = (typeof SOCIAL_PROVIDER_IDS)[number];
+
+/**
+ * Builds the better-auth `socialProviders` option from the environment.
+ * A provider is only enabled when both its client id and secret are set, so
+ * each environment opts in by configuring the matching secrets.
+ */
+export function getSocialProviders(env: AppType["Bindings"]): SocialProviders {
+	const providers: SocialProviders = {};
+
+	if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+		providers.google = {
+			clientId: env.GOOGLE_CLIENT_ID,
+			clientSecret: env.GOOGLE_CLIENT_SECRET,
+		};
+	}
+
+	if (env.GITHUB_CLIENT_ID && env.GITHUB_CLIENT_SECRET) {
+		providers.github = {
+			clientId: env.GITHUB_CLIENT_ID,
+			clientSecret: env.GITHUB_CLIENT_SECRET,
+		};
+	}
+
+	return providers;
+}
+
+export function getEnabledSocialProviders(
+	env: AppType["Bindings"],
+): SocialProviderId[] {
+	const providers = getSocialProviders(env);
+	return SOCIAL_PROVIDER_IDS.filter((id) => providers[id] !== undefined);
+}
@@ -0,0 +1,73 @@
+import { Database } from "bun:sqlite";
+import { readFileSync, readdirSync } from "node:fs";
+
+const MIGRATIONS_DIR = new URL("../../migrations/", import.meta.url);
+
+function applyMigrations(sqlite: Database) {
+	const files = readdirSync(MIGRATIONS_DIR)
+		.filter((file) => file.endsWith(".sql"))
+		.sort();
+	for (const file of files) {
+		const migration = readFileSync(new URL(file, MIGRATIONS_DIR), "utf8");
+		for (const statement of migration.split("--> statement-breakpoint")) {
+			if (statement.trim()) {
+				sqlite.exec(statement);
+			}
+		}
+	}
+}
+
+type Params = Parameters<ReturnType<Database["query"]>["all"]>;
+
+// D1 binds at most 100 parameters per statement, far fewer than SQLite
+const D1_MAX_BOUND_PARAMETERS = 100;
+
+/**
+ * An in-memory D1 database with every migration applied, backed by
+ * bun:sqlite. Only the parts of the D1 API that Drizzle calls are
+ * implemented, along with D1's limit on bound parameters.
+ */
+export function createTestD1() {
+	const sqlite = new Database(":memory:");
+	applyMigrations(sqlite);
+
+	const statement = (query: string, params: Params = []) => ({
+		bind: (...values: Params) => {
+			if (values.length > D1_MAX_BOUND_PARAMETERS) {
+				throw new Error("D1_ERROR: too many SQL variables");
+			}
+			return statement(query, values);
+		},
+		all: async () => ({
+			results: sqlite.query(query).all(...params),
+			success: true,
+			meta: {},
+		}),
+		raw: async () => sqlite.query(query).values(...params),
+		first: async () => sqlite.query(query).get(...params),
+		run: async () => {
+			const { changes, lastInsertRowid } = sqlite.query(query).run(...params);
+			return {
+				results: [],
+				success: true,
+				meta: { changes, last_row_id: Number(lastInsertRowid) },
+			};
+		},
+	});
+
+	const d1 = {
+		prepare: (query: string) => statement(query),
+		batch: async (statements: ReturnType<typeof statement>[]) => {
+			const results = [];
+			for (const batched of statements) {
+				results.push(await batched.all());
+			}
+			return results;
+		},
+		exec: async (query: string) => {
+			sqlite.exec(query);
+			return { count: 1, duration: 0 };
+		},
+	};
+	return d1 as unknown as D1Database;
+}
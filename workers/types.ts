@@ -1,10 +1,19 @@
 /// <reference path="../worker-configuration.d.ts" />
 import type { AuthCloudflareBindings } from "@portcityai/better-auth";
 import type { DrizzleD1Database } from "drizzle-orm/d1";
+import type { SeedReport, SeedSetName } from "../api/database/seed";
+import type { authFactory } from "./auth";
+import type { RecordAuditEvent } from "./services/audit";
 
 declare global {
-	interface CloudflareEnvironment extends CloudflareBindings {}
-	interface CloudflareVariables extends DatabaseVariables {
+	interface CloudflareEnvironment extends CloudflareBindings {
+		/**
+		 * Cloudflare Email Routing `send_email` binding, only configured where
+		 * the `cloudflare` email provider is used
+		 */
+		EMAIL?: SendEmail;
+	}
+	interface CloudflareVariables extends DatabaseVariables, AuditVariables {
 		loginService: AuthCloudflareBindings;
 	}
 }
@@ -12,11 +21,27 @@ declare global {
 export type DatabaseVariables = {
 	Database: Database;
 };
+export type AuditVariables = {
+	recordAuditEvent: RecordAuditEvent;
+};
 export type DatabaseClient = DrizzleD1Database<Record<string, never>>;
 
 export type Database = {
 	client: DatabaseClient;
-	seed: () => Promise<void>;
+	seed: (sets: SeedSetName[]) => Promise<SeedReport[]>;
+};
+
+export type Session = NonNullable<
+	Awaited<
+		ReturnType<Awaited<ReturnType<typeof authFactory>>["api"]["getSession"]>
+	>
+>;
+
+/**
+ * Extra Hono variables for routes behind `SessionMiddleware`
+ */
+export type SessionEnv = {
+	Variables: { session: Session };
 };
 
 export type AppType = {
@@ -0,0 +1,48 @@
+/**
+ * Upload rules shared by the upload endpoint and the forms that upload
+ */
+export const ATTACHMENT_KINDS = ["post", "avatar"] as const;
+
+export type AttachmentKind = (typeof ATTACHMENT_KINDS)[number];
+
+export type AttachmentVisibility = "public" | "private";
+
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/**
+ * What each kind of upload accepts. Avatars are shown to everyone and are
+ * public; post attachments are only served through signed URLs.
+ */
+export const UPLOAD_RULES: Record<
+	AttachmentKind,
+	{ maxBytes: number; contentTypes: string[]; visibility: AttachmentVisibility }
+> = {
+	avatar: {
+		maxBytes: 2 * 1024 * 1024,
+		contentTypes: IMAGE_TYPES,
+		visibility: "public",
+	},
+	post: {
+		maxBytes: 10 * 1024 * 1024,
+		contentTypes: [...IMAGE_TYPES, "application/pdf", "text/plain"],
+		visibility: "private",
+	},
+};
+
+/**
+ * Uploads are sent as the raw file, with its URI-encoded name in this header
+ */
+export const FILE_NAME_HEADER = "X-File-Name";
+
+export const MAX_ATTACHMENTS_PER_POST = 4;
+
+export function isAttachmentKind(value: unknown): value is AttachmentKind {
+	return (
+		typeof value === "string" &&
+		(ATTACHMENT_KINDS as readonly string[]).includes(value)
+	);
+}
+
+export function isImageType(contentType: string) {
+	return IMAGE_TYPES.includes(contentType);
+}